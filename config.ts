@@ -1,36 +1,27 @@
-import { etherlinkTestnet } from "viem/chains"
+import * as dotenv from "dotenv"
+import {
+  loadConfig,
+  PROFILE_CHAINS,
+  redactConfig,
+} from "./scripts/lib/config_loader"
 
-// Define a fallback RPC URL in case the chain's default doesn't work
-const ETHERLINK_FALLBACK_RPC = "https://node.ghostnet.etherlink.com"
+// Load .env before resolving so its values apply whichever module imports config first
+dotenv.config()
 
-export const ETHERLINK_CHAIN = etherlinkTestnet
+// Profile defaults, then the UNREAL_CONFIG file, then environment variables
+export const config = loadConfig(process.env)
 
-export const config = {
-  aptosNodeUrl:
-    process.env.APTOS_NODE_URL || "https://fullnode.testnet.aptoslabs.com",
-  aptosIndexerUrl:
-    process.env.APTOS_INDEXER_URL ||
-    "https://indexer.testnet.aptoslabs.com/v1/graphql",
-  aptosPrivateKey: process.env.APTOS_PRIVATE_KEY || "",
-  aptosModuleAddress: process.env.APTOS_MODULE_ADDRESS || "0x1",
-  aptosModuleName: process.env.APTOS_MODULE_NAME || "unreal",
-  etherlinkRpcUrl:
-    process.env.ETHERLINK_RPC_URL ||
-    ETHERLINK_FALLBACK_RPC ||
-    ETHERLINK_CHAIN.rpcUrls.default.http[0],
-  etherlinkPrivateKey: process.env.ETHERLINK_PRIVATE_KEY || "",
-  etherlinkBridgeAddress: process.env.ETHERLINK_BRIDGE_ADDRESS || "",
-  etherlinkHtlcAddress: process.env.ETHERLINK_HTLC_ADDRESS || "",
-  unrealTokenAddress: process.env.UNREAL_TOKEN_ADDRESS || "",
-  etherlinkChainId: ETHERLINK_CHAIN.id,
-  pollInterval: parseInt(process.env.RELAYER_POLL_INTERVAL || "60000", 10), // Default 1 minute
-}
-
-// Override Etherlink RPC URL with a specific endpoint that works reliably
-const etherlinkRpcUrl = "https://128123.rpc.thirdweb.com/fba2eea246629666b6b38ea90e03fedb"
+export const ETHERLINK_CHAIN = PROFILE_CHAINS[config.profile]
 
-// Only update the RPC URL, preserve all other config properties
-config.etherlinkRpcUrl = etherlinkRpcUrl
+/**
+ * Print the resolved configuration with private keys and RPC credentials redacted
+ */
+export function printConfig(): void {
+  console.log(
+    `Resolved configuration (profile ${config.profile}):`,
+    JSON.stringify(redactConfig(config), null, 2)
+  )
+}
 
 // Ensure contract addresses are exported from the config
 export const {
@@ -38,3 +29,7 @@ export const {
   etherlinkHtlcAddress,
   unrealTokenAddress
 } = config
+
+if (require.main === module) {
+  printConfig()
+}
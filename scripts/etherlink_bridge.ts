@@ -1,83 +1,262 @@
 import { 
+  ApiError,
   AptosClient, 
-  AptosAccount, 
   FaucetClient, 
   TokenClient,
   CoinClient,
+  HexString,
   Types 
 } from 'aptos';
-import { ethers } from 'ethers';
-import * as dotenv from 'dotenv';
-import * as crypto from 'crypto';
-import * as fs from 'fs';
-import * as path from 'path';
-import { config } from '../config';
-
-// Load environment variables
-dotenv.config();
+import { Address, Hex, zeroAddress } from 'viem';
+import { config, printConfig } from '../config';
+import { lockEndtime, lookupLockId } from './lib/lock_id';
+import { aptosLockLookupId, getAptosLedgerTime, readAptosLocks } from './lib/aptos_htlc';
+import { assertClaimable, ChainName, generateSecret, hashlockFor, verifyHashlock } from './lib/hashlock';
+import { errorMessage, SwapCompletionError } from './lib/errors';
+import { normalizeEvmAddress, parseChainAddress } from './lib/address';
+import { getEtherlinkClient } from './lib/etherlink';
+import { AptosTransactionError, submitAptosTransaction } from './lib/aptos_tx';
+import { AllowanceOptions, ensureAllowance, STANDING_APPROVAL_FLAG } from './lib/allowance';
+import { EPHEMERAL_FLAG, getAptosSigner } from './lib/signers';
+import { getSwapStore, SwapRecord } from './lib/swap_store';
+import { assertTransition, canTransition, REFUNDABLE_STATUSES } from './lib/swap_state';
+import {
+  ChainDecimals,
+  formatAmount,
+  fromRaw,
+  loadUnrealDecimals,
+  parseChainAmount,
+  toChainAmount,
+  unrealCoinType,
+} from './lib/amount';
 
 // Initialize Aptos client
 const aptosClient = new AptosClient(config.aptosNodeUrl);
 const coinClient = new CoinClient(aptosClient);
 const tokenClient = new TokenClient(aptosClient);
 
-// Initialize Etherlink provider and signer
-const etherlinkProvider = new ethers.providers.JsonRpcProvider(config.etherlinkRpcUrl);
-const etherlinkWallet = new ethers.Wallet(config.etherlinkPrivateKey, etherlinkProvider);
-
-// Load contract ABIs
-const htlcArtifact = JSON.parse(fs.readFileSync(
-  path.join(__dirname, '../../../artifacts/contracts/UnrealHTLC.sol/UnrealHTLC.json'),
-  'utf8'
-));
-const tokenArtifact = JSON.parse(fs.readFileSync(
-  path.join(__dirname, '../../../artifacts/contracts/UnrealToken.sol/UnrealToken.json'),
-  'utf8'
-));
-
-// Extract ABIs from artifacts
-const htlcAbi = htlcArtifact.abi;
-const tokenAbi = tokenArtifact.abi;
-
-// Contract instances
-const htlcContract = new ethers.Contract(
-  config.etherlinkHtlcAddress, 
-  htlcAbi, 
-  etherlinkWallet
-);
-const tokenContract = new ethers.Contract(
-  config.unrealTokenAddress,
-  tokenAbi,
-  etherlinkWallet
-);
-
-// Aptos account from private key
-// Create a random account if private key isn't provided or is invalid
-let aptosAccount: AptosAccount;
-try {
-  // Use HexString to properly format the key
-  const privateKeyHex = config.aptosPrivateKey.startsWith('0x') 
-    ? config.aptosPrivateKey 
-    : `0x${config.aptosPrivateKey}`;
-  // Create account using Ed25519PrivateKey approach
-  aptosAccount = AptosAccount.fromAptosAccountObject({
-    privateKeyHex
-  });
-  console.log(`Using Aptos account: ${aptosAccount.address()}`);  
-} catch (error) {
-  console.warn(`Invalid Aptos private key format, using random account for testing`);
-  aptosAccount = new AptosAccount();
-  console.log(`Using random Aptos account: ${aptosAccount.address()}`);
+// Etherlink client for the configured account, shared with the relayer and solver
+const etherlink = getEtherlinkClient();
+
+// Aptos signer from config; a missing or invalid key stops the script
+const aptosSigner = getAptosSigner();
+
+// Swap store shared with the relayer and solver
+const store = getSwapStore();
+
+// UnrealToken decimals on both chains, read once on first use
+let unrealDecimals: Promise<ChainDecimals> | undefined;
+
+/**
+ * Get UnrealToken decimals from `coin::decimals` on Aptos and `decimals()` on Etherlink
+ */
+function getUnrealDecimals(): Promise<ChainDecimals> {
+  if (!unrealDecimals) {
+    unrealDecimals = loadUnrealDecimals(aptosClient, () => etherlink.decimals());
+  }
+  return unrealDecimals;
+}
+
+/**
+ * Details needed to complete the destination leg of a swap
+ */
+interface SwapCompletionDetails {
+  sourceChain: string;
+  sender: string;
+  receiver: string;
+  amount: string;
+}
+
+/**
+ * Outcome of a completion: paid out now, or found to be settled already
+ */
+type CompletionResult = 'completed' | 'already_completed';
+
+/**
+ * Resolve completion details, falling back to the swap recorded at initiation
+ * @param swapId The ID of the swap
+ * @param details Details supplied by the caller, e.g. the relayer
+ * @returns The details and the stored swap when one exists
+ */
+function loadSwapCompletionDetails(
+  swapId: string,
+  details?: SwapCompletionDetails
+): { swapDetails: SwapCompletionDetails, swap?: SwapRecord } {
+  const swap = store.getSwap(swapId);
+
+  if (details) {
+    return { swapDetails: details, swap };
+  }
+
+  if (!swap) {
+    throw new Error(`Swap details not found for ID: ${swapId}`);
+  }
+
+  console.log(`Loaded swap details for ID: ${swapId}`);
+  return { swapDetails: swap, swap };
+}
+
+/**
+ * Refuse a secret that does not open the hashlock recorded for a chain
+ * @param swap Stored swap, if any
+ * @param chain Chain the secret is about to be revealed on
+ * @param secret Hex encoded secret
+ */
+function assertSecretMatchesSwap(swap: SwapRecord | undefined, chain: ChainName, secret: string): void {
+  const hashlock = swap?.legs[chain]?.hashlock;
+  if (!hashlock) {
+    return;
+  }
+  try {
+    assertClaimable(chain, secret, hashlock);
+  } catch (error) {
+    throw new SwapCompletionError(swap.id, 'invalid_secret', errorMessage(error), { retryable: false });
+  }
 }
 
 /**
- * Generate a random secret for HTLC
- * @returns {Object} secret and hash
+ * Refuse to pay out a swap whose source lock can no longer be claimed
+ * @param swap Stored swap, if any
+ * @throws SwapCompletionError for refunded or expired swaps
  */
-function generateSecret(): { secret: string, hash: string } {
-  const secret = crypto.randomBytes(32).toString('hex');
-  const hash = ethers.utils.keccak256('0x' + secret);
-  return { secret, hash };
+function assertCompletable(swap: SwapRecord | undefined): void {
+  if (swap?.status === 'refunded') {
+    throw new SwapCompletionError(swap.id, 'source_refunded', 'source lock was refunded', { retryable: false });
+  }
+  if (swap?.status === 'expired') {
+    throw new SwapCompletionError(swap.id, 'source_expired', 'source timelock has passed', { retryable: false });
+  }
+  if (swap) {
+    assertTransition(swap, 'destination_claimed');
+  }
+}
+
+/**
+ * Check whether the swap store already records the destination payout
+ * @param swap Stored swap, if any
+ */
+function isPaidOut(swap: SwapRecord | undefined): boolean {
+  return swap?.status === 'destination_claimed' || swap?.status === 'source_claimed';
+}
+
+/**
+ * Source lock of a swap as read from its chain
+ */
+interface SourceLock {
+  chain: ChainName;
+  lockId: string;
+  hashlock: string;
+  endtime: number;
+  withdrawn: boolean;
+  refunded: boolean;
+}
+
+/**
+ * Check that the source lock still backs the payout before sending it
+ *
+ * A withdrawn source lock means the counterparty already settled the swap, which
+ * is recorded instead of paying out a second time.
+ * @param swapId The ID of the swap
+ * @param swap Stored swap, if any
+ * @param lock Source lock, undefined when the chain has none
+ * @param now Current time on the source chain in seconds
+ * @param secret Hex encoded secret
+ * @returns True when the swap is already settled
+ * @throws SwapCompletionError if the lock is missing, refunded, expired or has another hashlock
+ */
+function checkSourceLock(
+  swapId: string,
+  swap: SwapRecord | undefined,
+  lock: SourceLock | undefined,
+  now: number,
+  secret: string
+): boolean {
+  if (!lock) {
+    throw new SwapCompletionError(swapId, 'source_missing', 'no source lock found on chain', { retryable: false });
+  }
+  if (lock.withdrawn) {
+    console.log(`${lock.chain} lock ${lock.lockId} was already withdrawn`);
+    if (swap && canTransition(swap.status, 'source_claimed')) {
+      store.transitionSwap(swap.id, 'source_claimed', `${lock.chain} lock ${lock.lockId} found withdrawn`, { secret });
+    }
+    return true;
+  }
+  if (lock.refunded) {
+    throw new SwapCompletionError(swapId, 'source_refunded', `${lock.chain} lock ${lock.lockId} was refunded`, { retryable: false });
+  }
+  if (now >= lock.endtime) {
+    throw new SwapCompletionError(
+      swapId,
+      'source_expired',
+      `${lock.chain} lock ${lock.lockId} expired at ${new Date(lock.endtime * 1000).toISOString()}`,
+      { retryable: false }
+    );
+  }
+  if (!verifyHashlock(lock.chain, secret, lock.hashlock)) {
+    throw new SwapCompletionError(
+      swapId,
+      'invalid_secret',
+      `secret does not open ${lock.chain} lock ${lock.lockId} with hashlock ${lock.hashlock}`,
+      { retryable: false }
+    );
+  }
+  return false;
+}
+
+/**
+ * Wrap an unexpected failure, e.g. an RPC error, as a retryable completion error
+ * @param swapId The ID of the swap
+ * @param error The thrown value
+ */
+function toCompletionError(swapId: string, error: unknown): SwapCompletionError {
+  if (error instanceof SwapCompletionError) {
+    return error;
+  }
+  return new SwapCompletionError(swapId, 'rpc_failed', errorMessage(error), { retryable: true, cause: error });
+}
+
+/**
+ * Find the Aptos lock backing a swap, by its recorded lock ID or else by the secret's hashlock
+ * @param swap Stored swap, if any
+ * @param secret Hex encoded secret
+ */
+async function findAptosSourceLock(swap: SwapRecord | undefined, secret: string): Promise<SourceLock | undefined> {
+  const lockId = swap?.legs.Aptos?.lockId;
+  const hashlock = hashlockFor('Aptos', secret);
+  const lock = (await readAptosLocks(aptosClient)).find((lock) =>
+    lockId
+      ? aptosLockLookupId(lock) === lockId
+      : HexString.ensure(lock.secret_hash).hex() === hashlock
+  );
+  if (!lock) {
+    return undefined;
+  }
+  return {
+    chain: 'Aptos',
+    lockId: aptosLockLookupId(lock),
+    hashlock: lock.secret_hash,
+    endtime: Number(lock.endtime),
+    withdrawn: lock.withdrawn,
+    refunded: lock.refunded,
+  };
+}
+
+/**
+ * Check whether an Aptos account can receive UnrealToken
+ *
+ * `complete_swap` returns without paying anything to an unregistered account.
+ * @param address Aptos account address
+ */
+async function hasUnrealCoinStore(address: string): Promise<boolean> {
+  try {
+    await aptosClient.getAccountResource(address, `0x1::coin::CoinStore<${unrealCoinType()}>`);
+    return true;
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 404) {
+      return false;
+    }
+    throw error;
+  }
 }
 
 /**
@@ -92,57 +271,43 @@ function ethAddressToHex(address: string): string {
 /**
  * Initiate a swap from Etherlink to Aptos
  * @param amount Amount to swap
- * @param receiverAddress Aptos address to receive tokens
+ * @param aptosReceiver Aptos address to receive tokens
+ * @param etherlinkRecipient Etherlink address allowed to withdraw the lock, i.e. the counterparty paying out on Aptos
+ * @param allowanceOptions Whether to grant the HTLC a standing allowance
+ * @throws Error if either address is malformed or belongs to the other chain
  */
 async function initiateEtherlinkToAptosSwap(
   amount: string,
-  receiverAddress: string
+  aptosReceiver: string,
+  etherlinkRecipient: string,
+  allowanceOptions: AllowanceOptions = {}
 ): Promise<void> {
+  const receiverAddress = parseChainAddress('Aptos', aptosReceiver, 'Aptos receiver');
+  const recipient = parseChainAddress('Etherlink', etherlinkRecipient, 'Etherlink lock recipient') as Address;
+  
   try {
     console.log(`Starting Etherlink -> Aptos swap...`);
     console.log(`Amount: ${amount} UNREAL`);
     console.log(`Receiver: ${receiverAddress}`);
+    console.log(`Etherlink lock recipient: ${recipient}`);
     
-    // Generate secret and hash
-    const { secret, hash } = generateSecret();
+    // Generate secret and the hashlock for each chain
+    const { secret, hashlocks } = generateSecret();
+    const hash = hashlocks.Etherlink;
     console.log(`Generated secret: ${secret}`);
     console.log(`Secret hash: ${hash}`);
+    console.log(`Aptos hashlock: ${hashlocks.Aptos}`);
     
-    // Approve token spend
-    const amountWei = ethers.utils.parseEther(amount);
-    console.log(`Approving token spend of ${amountWei.toString()} wei...`);
-    
-    // Get current gas price with a premium
-    const gasPrice = await etherlinkProvider.getGasPrice();
-    const gasPriceWithPremium = gasPrice.mul(120).div(100); // 20% premium
-    console.log(`Using gas price: ${ethers.utils.formatUnits(gasPriceWithPremium, 'gwei')} gwei`);
-    
-    // IMPORTANT: Approve the HTLC contract (not the bridge) - this is the contract that actually moves tokens
-    console.log(`Approving token spend for HTLC contract: ${config.etherlinkHtlcAddress}`); 
-    const approveTx = await tokenContract.approve(
-      config.etherlinkHtlcAddress, // Changed to HTLC address - this is the contract that transfers tokens
-      amountWei,
-      {
-        gasLimit: 900000,  // Increased gas limit based on network requirements (872000 minimum)
-        gasPrice: gasPriceWithPremium
-      }
-    );
-    
-    console.log(`Approval transaction submitted: ${approveTx.hash}`);
-    console.log('Waiting for transaction confirmation...');
-    
-    await approveTx.wait();
-    console.log(`Approval transaction confirmed: ${approveTx.hash}`);
-    
-    // Derive EVM compatible address from Aptos address
-    // The Aptos address is 32 bytes, but we need a 20-byte EVM address
-    // We'll use the last 20 bytes of a keccak256 hash of the Aptos address
-    const aptosAddressBuffer = Buffer.from(receiverAddress.replace(/^0x/, ''), 'hex');
-    const hash256 = ethers.utils.keccak256(aptosAddressBuffer);
-    const evmCompatibleAddress = ethers.utils.getAddress('0x' + hash256.slice(2).slice(-40)); // last 20 bytes
+    const decimals = await getUnrealDecimals();
+    const etherlinkAmount = parseChainAmount(amount, 'Etherlink', decimals);
+    // Reject amounts the Aptos leg cannot represent before locking anything
+    toChainAmount(etherlinkAmount, 'Aptos', decimals);
+    const amountWei = etherlinkAmount.raw;
     
-    console.log(`Original Aptos address: ${receiverAddress}`);
-    console.log(`Derived EVM-compatible address: ${evmCompatibleAddress}`);
+    // IMPORTANT: The HTLC contract (not the bridge) is the contract that actually moves tokens
+    // Fails on an insufficient balance before anything is sent, and skips the approval when the allowance suffices
+    console.log(`Checking balance and allowance of HTLC contract: ${config.etherlinkHtlcAddress}`);
+    await ensureAllowance(etherlink, config.etherlinkHtlcAddress as Address, amountWei, allowanceOptions);
     
     // Lock tokens in HTLC contract
     console.log(`Locking tokens in HTLC contract...`);
@@ -152,44 +317,50 @@ async function initiateEtherlinkToAptosSwap(
     const timelock = currentTimestamp + (24 * 60 * 60); // 24 hours from now in seconds
     console.log(`Using timelock with end time: ${timelock} (${new Date(timelock * 1000).toISOString()})`); 
     
-    const tx = await htlcContract.initiateSwap(
-      hash,
-      evmCompatibleAddress, // Use the derived EVM address
-      amountWei,
-      timelock, // Absolute future timestamp for timelock
-      'Aptos',
-      receiverAddress // Original Aptos address as string in target chain data
-    );
-    
-    const receipt = await tx.wait();
-    console.log(`Swap initiated! Transaction: ${tx.hash}`);
-    
-    // Extract swap ID from events
-    const swapInitiatedEvent = receipt.events?.find((e: any) => e.event === 'SwapInitiated');
-    const swapId = swapInitiatedEvent?.args?.swapId;
+    const { swapId, receipt } = await etherlink.initiateSwap({
+      secretHash: hash,
+      recipient, // Counterparty withdrawing on Etherlink
+      amount: amountWei,
+      timelock: BigInt(timelock), // Absolute future timestamp for timelock
+      targetChain: 'Aptos',
+      targetAddress: receiverAddress // Normalized Aptos receiver in target chain data
+    });
+    console.log(`Swap initiated! Transaction: ${receipt.transactionHash}`);
     console.log(`Swap ID: ${swapId}`);
     
     // Save the swap details for later use
-    const swapDetails = {
-      swapId,
+    store.insertSwap({
+      id: swapId,
+      sourceChain: 'Etherlink',
+      targetChain: 'Aptos',
+      status: 'source_locked',
+      secretHash: hash,
       secret,
-      hash,
       amount,
-      sender: etherlinkWallet.address,
+      sender: etherlink.address,
       receiver: receiverAddress,
-      timelock: 24,
-      timestamp: Date.now(),
-      status: 'initiated',
-      sourceChain: 'Etherlink',
-      targetChain: 'Aptos',
-    };
-    
-    fs.writeFileSync(
-      path.join(__dirname, `swap_${swapId}.json`),
-      JSON.stringify(swapDetails, null, 2)
-    );
+      legs: [
+        {
+          chain: 'Etherlink',
+          lockId: swapId,
+          sender: etherlink.address,
+          recipient,
+          amount: amountWei.toString(),
+          hashlock: hash,
+          endtime: timelock,
+          initTx: receipt.transactionHash,
+        },
+        {
+          chain: 'Aptos',
+          recipient: receiverAddress,
+          amount: toChainAmount(etherlinkAmount, 'Aptos', decimals).raw.toString(),
+          hashlock: hashlocks.Aptos,
+        },
+      ],
+      metadata: { timelock: 24 },
+    }, 'initiated by bridge CLI');
     
-    console.log(`Swap details saved to swap_${swapId}.json`);
+    console.log(`Swap details saved to ${store.file}`);
     console.log(`IMPORTANT: Keep the secret safe to complete the swap on Aptos!`);
     
   } catch (error) {
@@ -199,21 +370,59 @@ async function initiateEtherlinkToAptosSwap(
 
 /**
  * Complete a swap from Etherlink to Aptos
+ *
+ * Checks the Etherlink source lock and the receiver's CoinStore, then simulates
+ * `complete_swap` before submitting it. Swaps that are already settled are skipped.
  * @param swapId The ID of the swap to complete
- * @param secret The secret to unlock the swap
+ * @param secret The secret to unlock the swap, hex encoded
+ * @param details Swap details; read from the swap store when omitted
+ * @returns Whether the swap was completed now or had been already
+ * @throws SwapCompletionError telling whether the completion can be retried
  */
-async function completeEtherlinkToAptosSwap(swapId: string, secret: string): Promise<void> {
+async function completeEtherlinkToAptosSwap(
+  swapId: string,
+  secret: string,
+  details?: SwapCompletionDetails
+): Promise<CompletionResult> {
+  console.log(`Completing Etherlink -> Aptos swap...`);
+  
+  const { swapDetails, swap } = loadSwapCompletionDetails(swapId, details);
+  if (isPaidOut(swap)) {
+    console.log(`Swap ${swapId} is already ${swap?.status}`);
+    return 'already_completed';
+  }
+  assertCompletable(swap);
+  assertSecretMatchesSwap(swap, 'Aptos', secret);
+  
   try {
-    console.log(`Completing Etherlink -> Aptos swap...`);
+    // The source lock must still be claimable, or paying out would lose the destination funds
+    const lockId = (swap?.legs.Etherlink?.lockId ?? swapId) as Hex;
+    const [lock, latestBlock] = await Promise.all([
+      etherlink.getSwap(lockId),
+      etherlink.publicClient.getBlock(),
+    ]);
+    const sourceLock: SourceLock | undefined = lock.sender === zeroAddress ? undefined : {
+      chain: 'Etherlink',
+      lockId,
+      hashlock: lock.secretHash,
+      endtime: Number(lock.timelock),
+      withdrawn: lock.withdrawn,
+      refunded: lock.refunded,
+    };
+    if (checkSourceLock(swapId, swap, sourceLock, Number(latestBlock.timestamp), secret)) {
+      return 'already_completed';
+    }
     
-    // Load swap details
-    const swapDetailsPath = path.join(__dirname, `swap_${swapId}.json`);
-    if (!fs.existsSync(swapDetailsPath)) {
-      throw new Error(`Swap details not found for ID: ${swapId}`);
+    if (!(await hasUnrealCoinStore(swapDetails.receiver))) {
+      throw new SwapCompletionError(
+        swapId,
+        'destination_not_registered',
+        `Aptos receiver ${swapDetails.receiver} has not registered UnrealToken`,
+        { retryable: true }
+      );
     }
     
-    const swapDetails = JSON.parse(fs.readFileSync(swapDetailsPath, 'utf8'));
-    console.log(`Loaded swap details for ID: ${swapId}`);
+    const decimals = await getUnrealDecimals();
     
     // Call the Aptos contract to complete the swap
     const payload: Types.EntryFunctionPayload = {
@@ -223,36 +432,37 @@ async function completeEtherlinkToAptosSwap(swapId: string, secret: string): Pro
         'Etherlink', // source_chain
         swapDetails.sender, // source_address
         swapDetails.receiver, // destination
-        ethers.utils.parseEther(swapDetails.amount).toString(), // amount
-        secret, // preimage
+        parseChainAmount(swapDetails.amount, 'Aptos', decimals).raw.toString(), // amount
+        HexString.ensure(secret).toUint8Array(), // preimage
       ],
     };
     
-    // Submit transaction
+    // Submit transaction; it is simulated first, so an abort costs no gas
     console.log(`Submitting transaction to Aptos...`);
-    const tx = await aptosClient.generateTransaction(aptosAccount.address(), payload);
-    const signedTx = await aptosClient.signTransaction(aptosAccount, tx);
-    const pendingTx = await aptosClient.submitTransaction(signedTx);
-    
-    // Wait for transaction
-    await aptosClient.waitForTransaction(pendingTx.hash);
+    let committedTx: Types.UserTransaction;
+    try {
+      committedTx = await submitAptosTransaction(aptosClient, aptosSigner, payload);
+    } catch (error) {
+      if (error instanceof AptosTransactionError && !error.hash) {
+        throw new SwapCompletionError(swapId, 'simulation_failed', error.message, { retryable: true, cause: error });
+      }
+      throw error;
+    }
     console.log(`Aptos transaction completed!`);
-    console.log(`Transaction hash: ${pendingTx.hash}`);
+    console.log(`Transaction hash: ${committedTx.hash}`);
     
     // Update swap status
-    swapDetails.status = 'completed';
-    swapDetails.completedAt = Date.now();
-    swapDetails.aptosTransactionHash = pendingTx.hash;
-    
-    fs.writeFileSync(
-      swapDetailsPath,
-      JSON.stringify(swapDetails, null, 2)
-    );
+    if (swap) {
+      store.transitionSwap(swapId, 'destination_claimed', 'completed on Aptos by bridge CLI', {
+        secret,
+        legs: { Aptos: { claimTx: committedTx.hash } },
+      });
+    }
     
     console.log(`Swap completed and details updated!`);
-    
+    return 'completed';
   } catch (error) {
-    console.error(`Error completing swap:`, error);
+    throw toCompletionError(swapId, error);
   }
 }
 
@@ -260,23 +470,41 @@ async function completeEtherlinkToAptosSwap(swapId: string, secret: string): Pro
  * Initiate a swap from Aptos to Etherlink
  * @param amount Amount to swap
  * @param receiverAddress Ethereum address to receive tokens
+ * @param aptosRecipient Aptos address allowed to withdraw the lock, i.e. the counterparty paying out on Etherlink
+ * @throws Error if either address is malformed or belongs to the other chain
  */
 async function initiateAptosToEtherlinkSwap(
   amount: string,
-  receiverAddress: string
+  receiverAddress: string,
+  aptosRecipient: string
 ): Promise<void> {
+  // The lock recipient claims on Aptos; the EVM address only travels as target chain data
+  const receiver = parseChainAddress('Etherlink', receiverAddress, 'Etherlink receiver');
+  const recipient = parseChainAddress('Aptos', aptosRecipient, 'Aptos lock recipient');
+  
   try {
     console.log(`Starting Aptos -> Etherlink swap...`);
     console.log(`Amount: ${amount} UNREAL`);
-    console.log(`Receiver: ${receiverAddress}`);
+    console.log(`Receiver: ${receiver}`);
+    console.log(`Aptos lock recipient: ${recipient}`);
     
-    // Generate secret and hash
-    const { secret, hash } = generateSecret();
+    // Generate secret and the hashlock for each chain
+    const { secret, hashlocks } = generateSecret();
+    const hash = hashlocks.Aptos;
     console.log(`Generated secret: ${secret}`);
     console.log(`Secret hash: ${hash}`);
+    console.log(`Etherlink hashlock: ${hashlocks.Etherlink}`);
     
     // Convert amount to u64
-    const amountU64 = Math.floor(parseFloat(amount) * 10**8);
+    const decimals = await getUnrealDecimals();
+    const aptosAmount = parseChainAmount(amount, 'Aptos', decimals);
+    // Reject amounts the Etherlink leg cannot represent before locking anything
+    toChainAmount(aptosAmount, 'Etherlink', decimals);
+    const amountU64 = aptosAmount.raw;
+    
+    // Timestamp and timeout feed the lock ID derivation on chain
+    const timeoutHours = 24;
+    const timestamp = Math.floor(Date.now() / 1000);
     
     // Create transaction payload
     const payload: Types.EntryFunctionPayload = {
@@ -284,57 +512,73 @@ async function initiateAptosToEtherlinkSwap(
       type_arguments: [],
       arguments: [
         Buffer.from(hash.replace(/^0x/, ''), 'hex'), // secret_hash
-        receiverAddress, // recipient
+        recipient, // recipient
         amountU64.toString(), // amount
-        '24', // timeout_hours
+        timeoutHours.toString(), // timeout_hours
         'Etherlink', // target_chain
-        receiverAddress, // target_address
+        receiver, // target_address
+        timestamp.toString(), // timestamp
       ],
     };
     
-    // Submit transaction
+    // Submit transaction; a Move abort in simulation or on chain is thrown
     console.log(`Submitting transaction to Aptos...`);
-    const tx = await aptosClient.generateTransaction(aptosAccount.address(), payload);
-    const signedTx = await aptosClient.signTransaction(aptosAccount, tx);
-    const pendingTx = await aptosClient.submitTransaction(signedTx);
-    
-    // Wait for transaction
-    await aptosClient.waitForTransaction(pendingTx.hash);
-    console.log(`Swap initiated! Transaction: ${pendingTx.hash}`);
-    
-    // Generate swap ID based on parameters similar to contract
-    const swapId = crypto.createHash('sha256')
-      .update(Buffer.concat([
-        Buffer.from(hash.replace(/^0x/, ''), 'hex'),
-        Buffer.from(receiverAddress),
-        Buffer.from(aptosAccount.address().toString()),
-        Buffer.from(amountU64.toString()),
-        Buffer.from(Date.now().toString()),
-      ]))
-      .digest('hex');
+    const committedTx = await submitAptosTransaction(aptosClient, aptosSigner, payload);
+    console.log(`Swap initiated! Transaction: ${committedTx.hash}`);
+    
+    // The emitted lock ID is derived with the timestamp, so it only identifies the event
+    const initiatedEvent = committedTx.events.find((event) =>
+      event.type.endsWith(`::${config.aptosModuleName}::SwapInitiatedEvent`)
+    );
+    if (!initiatedEvent) {
+      throw new Error(`No SwapInitiatedEvent in transaction ${committedTx.hash}`);
+    }
+    console.log(`Lock ID in SwapInitiatedEvent: ${initiatedEvent.data.lock_id}`);
+    
+    // withdraw/refund look locks up by an ID derived without the timestamp, which
+    // the relayer and solver also key Aptos-sourced swaps by
+    const swapId = lookupLockId({
+      secretHash: hash,
+      recipient,
+      sender: aptosSigner.address(),
+      amount: amountU64,
+      endtime: lockEndtime(timestamp, timeoutHours),
+    });
+    console.log(`Swap ID (lock ID for withdraw/refund): ${swapId}`);
     
     // Save the swap details for later use
-    const swapDetails = {
-      swapId,
-      secret,
-      hash,
-      amount,
-      sender: aptosAccount.address().toString(),
-      receiver: receiverAddress,
-      timelock: 24,
-      timestamp: Date.now(),
-      status: 'initiated',
+    store.insertSwap({
+      id: swapId,
       sourceChain: 'Aptos',
       targetChain: 'Etherlink',
-      aptosTransactionHash: pendingTx.hash,
-    };
-    
-    fs.writeFileSync(
-      path.join(__dirname, `swap_${swapId}.json`),
-      JSON.stringify(swapDetails, null, 2)
-    );
+      status: 'source_locked',
+      secretHash: hash,
+      secret,
+      amount,
+      sender: aptosSigner.address().toString(),
+      receiver,
+      legs: [
+        {
+          chain: 'Aptos',
+          lockId: swapId,
+          sender: aptosSigner.address().toString(),
+          recipient,
+          amount: amountU64.toString(),
+          hashlock: hash,
+          endtime: Number(lockEndtime(timestamp, timeoutHours)),
+          initTx: committedTx.hash,
+        },
+        {
+          chain: 'Etherlink',
+          recipient: receiver,
+          amount: toChainAmount(aptosAmount, 'Etherlink', decimals).raw.toString(),
+          hashlock: hashlocks.Etherlink,
+        },
+      ],
+      metadata: { timelock: timeoutHours },
+    }, 'initiated by bridge CLI');
     
-    console.log(`Swap details saved to swap_${swapId}.json`);
+    console.log(`Swap details saved to ${store.file}`);
     console.log(`IMPORTANT: Keep the secret safe to complete the swap on Etherlink!`);
     
   } catch (error) {
@@ -344,50 +588,248 @@ async function initiateAptosToEtherlinkSwap(
 
 /**
  * Complete a swap from Aptos to Etherlink
+ *
+ * Checks the Aptos source lock, then simulates `completeSwap` before sending it.
+ * Swaps that are already settled are skipped.
  * @param swapId The ID of the swap to complete
- * @param secret The secret to unlock the swap
+ * @param secret The secret to unlock the swap, hex encoded
+ * @param details Swap details; read from the swap store when omitted
+ * @returns Whether the swap was completed now or had been already
+ * @throws SwapCompletionError telling whether the completion can be retried
  */
-async function completeAptosToEtherlinkSwap(swapId: string, secret: string): Promise<void> {
+async function completeAptosToEtherlinkSwap(
+  swapId: string,
+  secret: string,
+  details?: SwapCompletionDetails
+): Promise<CompletionResult> {
+  console.log(`Completing Aptos -> Etherlink swap...`);
+  
+  const { swapDetails, swap } = loadSwapCompletionDetails(swapId, details);
+  if (isPaidOut(swap)) {
+    console.log(`Swap ${swapId} is already ${swap?.status}`);
+    return 'already_completed';
+  }
+  assertCompletable(swap);
+  assertSecretMatchesSwap(swap, 'Etherlink', secret);
+  
   try {
-    console.log(`Completing Aptos -> Etherlink swap...`);
-    
-    // Load swap details
-    const swapDetailsPath = path.join(__dirname, `swap_${swapId}.json`);
-    if (!fs.existsSync(swapDetailsPath)) {
-      throw new Error(`Swap details not found for ID: ${swapId}`);
+    // The source lock must still be claimable, or paying out would lose the destination funds
+    const [sourceLock, now] = await Promise.all([
+      findAptosSourceLock(swap, secret),
+      getAptosLedgerTime(aptosClient),
+    ]);
+    if (checkSourceLock(swapId, swap, sourceLock, now, secret)) {
+      return 'already_completed';
     }
     
-    const swapDetails = JSON.parse(fs.readFileSync(swapDetailsPath, 'utf8'));
-    console.log(`Loaded swap details for ID: ${swapId}`);
+    const decimals = await getUnrealDecimals();
+    const params = {
+      sourceChain: swapDetails.sourceChain,
+      sourceAddress: swapDetails.sender,
+      recipient: swapDetails.receiver as Address,
+      amount: parseChainAmount(swapDetails.amount, 'Etherlink', decimals).raw,
+      secret: HexString.ensure(secret).hex() as Hex
+    };
+    
+    // Simulate first so a revert costs no gas
+    try {
+      await etherlink.simulateCompleteSwap(params);
+    } catch (error) {
+      throw new SwapCompletionError(
+        swapId,
+        'simulation_failed',
+        `completeSwap simulation reverted: ${errorMessage(error)}`,
+        { retryable: true, cause: error }
+      );
+    }
     
     // Call the Etherlink contract to complete the swap
     console.log(`Completing swap on Etherlink...`);
-    const tx = await htlcContract.completeSwap(
-      swapDetails.sourceChain,
-      swapDetails.sender,
-      swapDetails.receiver,
-      ethers.utils.parseEther(swapDetails.amount),
-      secret
-    );
-    
-    const receipt = await tx.wait();
+    const receipt = await etherlink.completeSwap(params);
     console.log(`Etherlink transaction completed!`);
     console.log(`Transaction hash: ${receipt.transactionHash}`);
     
     // Update swap status
-    swapDetails.status = 'completed';
-    swapDetails.completedAt = Date.now();
-    swapDetails.etherlinkTransactionHash = receipt.transactionHash;
-    
-    fs.writeFileSync(
-      swapDetailsPath,
-      JSON.stringify(swapDetails, null, 2)
-    );
+    if (swap) {
+      store.transitionSwap(swapId, 'destination_claimed', 'completed on Etherlink by bridge CLI', {
+        secret,
+        legs: { Etherlink: { claimTx: receipt.transactionHash } },
+      });
+    }
     
     console.log(`Swap completed and details updated!`);
-    
+    return 'completed';
+  } catch (error) {
+    throw toCompletionError(swapId, error);
+  }
+}
+
+/**
+ * A lock whose timelock has passed without being withdrawn
+ */
+interface RefundableLock {
+  chain: 'Aptos' | 'Etherlink';
+  lockId: string;
+  secretHash: string;
+  amount: string; // Human readable UNREAL amount
+  endtime: number;
+  swapId?: string; // Stored swap the lock belongs to
+}
+
+/**
+ * Find expired, unclaimed Aptos locks sent by our account
+ * @returns Refundable locks on Aptos
+ */
+async function findRefundableAptosLocks(): Promise<RefundableLock[]> {
+  const now = await getAptosLedgerTime(aptosClient);
+  const lockContracts = await readAptosLocks(aptosClient);
+  const sender = HexString.ensure(aptosSigner.address().toString()).toShortString();
+  const decimals = await getUnrealDecimals();
+
+  return lockContracts
+    .filter((lock) =>
+      HexString.ensure(lock.sender).toShortString() === sender &&
+      !lock.withdrawn &&
+      !lock.refunded &&
+      now >= Number(lock.endtime)
+    )
+    .map((lock) => {
+      const [swap] = store.findSwaps({
+        sourceChain: 'Aptos',
+        status: REFUNDABLE_STATUSES,
+        hashlock: lock.secret_hash,
+      });
+      return {
+        chain: 'Aptos' as const,
+        lockId: aptosLockLookupId(lock),
+        secretHash: lock.secret_hash,
+        amount: formatAmount(fromRaw(lock.amount, decimals.Aptos)),
+        endtime: Number(lock.endtime),
+        swapId: swap?.id,
+      };
+    });
+}
+
+/**
+ * Find expired Etherlink locks recorded in the swap store that can still be refunded
+ * @returns Refundable locks on Etherlink
+ */
+async function findRefundableEtherlinkLocks(): Promise<RefundableLock[]> {
+  const latestBlock = await etherlink.publicClient.getBlock();
+  const refundable: RefundableLock[] = [];
+
+  for (const swap of store.findSwaps({ sourceChain: 'Etherlink', status: REFUNDABLE_STATUSES })) {
+    const leg = swap.legs.Etherlink;
+    if (
+      !leg?.lockId ||
+      leg.endtime === undefined ||
+      swap.sender.toLowerCase() !== etherlink.address.toLowerCase()
+    ) {
+      continue;
+    }
+
+    if (latestBlock.timestamp < BigInt(leg.endtime)) {
+      continue;
+    }
+
+    // A reverting static call means the lock was already claimed or refunded
+    try {
+      await etherlink.simulateRefund(leg.lockId as Hex);
+    } catch (error) {
+      console.log(`Skipping Etherlink swap ${leg.lockId}: refund would revert`);
+      continue;
+    }
+
+    refundable.push({
+      chain: 'Etherlink',
+      lockId: leg.lockId,
+      secretHash: swap.secretHash,
+      amount: swap.amount,
+      endtime: leg.endtime,
+      swapId: swap.id,
+    });
+  }
+
+  return refundable;
+}
+
+/**
+ * Submit the refund for a single expired lock
+ * @param lock The lock to refund
+ * @returns Transaction hash of the refund
+ */
+async function refundLock(lock: RefundableLock): Promise<string> {
+  if (lock.chain === 'Aptos') {
+    const payload: Types.EntryFunctionPayload = {
+      function: `${config.aptosModuleAddress}::${config.aptosModuleName}::refund`,
+      type_arguments: [],
+      arguments: [
+        HexString.ensure(lock.lockId).toUint8Array(), // lock_id
+      ],
+    };
+
+    const committedTx = await submitAptosTransaction(aptosClient, aptosSigner, payload);
+    return committedTx.hash;
+  }
+
+  const receipt = await etherlink.refund(lock.lockId as Hex);
+  return receipt.transactionHash;
+}
+
+/**
+ * Refund every expired, unclaimed lock this account created on either chain
+ * @param dryRun Only list the refundable locks without sending transactions
+ */
+async function refundExpiredSwaps(dryRun: boolean): Promise<void> {
+  try {
+    const locks = [
+      ...(await findRefundableAptosLocks()),
+      ...(await findRefundableEtherlinkLocks()),
+    ];
+
+    if (locks.length === 0) {
+      console.log('No refundable locks found');
+      return;
+    }
+
+    for (const lock of locks) {
+      console.log(
+        `${lock.chain} lock ${lock.lockId}: amount ${lock.amount}, hash ${lock.secretHash}, ` +
+        `expired at ${new Date(lock.endtime * 1000).toISOString()}`
+      );
+      if (dryRun) {
+        continue;
+      }
+
+      try {
+        // Refuse before sending when the swap cannot end refunded, e.g. it was claimed
+        const swap = lock.swapId ? store.getSwap(lock.swapId) : undefined;
+        if (swap) {
+          assertTransition(swap, 'refunded');
+        }
+
+        const txHash = await refundLock(lock);
+        console.log(`Refunded ${lock.chain} lock ${lock.lockId}: ${txHash}`);
+
+        // Record the outcome only once it happened, so a failed refund leaves the swap as it was
+        if (swap) {
+          store.transaction(() => {
+            store.transitionSwap(swap.id, 'expired', `${lock.chain} timelock passed`);
+            store.transitionSwap(swap.id, 'refunded', `refunded on ${lock.chain} by bridge CLI`, {
+              legs: { [lock.chain]: { refundTx: txHash } },
+            });
+          });
+        }
+      } catch (error) {
+        console.error(`Error refunding ${lock.chain} lock ${lock.lockId}:`, error);
+      }
+    }
+
+    if (dryRun) {
+      console.log(`${locks.length} refundable lock(s); run without --dry-run to refund`);
+    }
   } catch (error) {
-    console.error(`Error completing swap:`, error);
+    console.error(`Error refunding expired swaps:`, error);
   }
 }
 
@@ -397,6 +839,7 @@ async function completeAptosToEtherlinkSwap(swapId: string, secret: string): Pro
  * @param contractAddress Target contract address
  * @param calldata Contract call data
  * @param gasLimit Gas limit for transaction
+ * @throws Error if the contract address is not an EVM address
  */
 async function executeOnEvm(
   chainId: number,
@@ -404,6 +847,8 @@ async function executeOnEvm(
   calldata: string,
   gasLimit: number
 ): Promise<void> {
+  const target = normalizeEvmAddress(contractAddress);
+  
   try {
     console.log(`Executing transaction on EVM chain ${chainId}...`);
     
@@ -413,21 +858,16 @@ async function executeOnEvm(
       type_arguments: [],
       arguments: [
         chainId.toString(), // evm_chain_id
-        contractAddress, // contract_address
+        target, // contract_address
         Buffer.from(calldata.replace(/^0x/, ''), 'hex'), // calldata
         gasLimit.toString(), // gas_limit
       ],
     };
     
-    // Submit transaction
+    // Submit transaction; a Move abort in simulation or on chain is thrown
     console.log(`Submitting transaction to Aptos...`);
-    const tx = await aptosClient.generateTransaction(aptosAccount.address(), payload);
-    const signedTx = await aptosClient.signTransaction(aptosAccount, tx);
-    const pendingTx = await aptosClient.submitTransaction(signedTx);
-    
-    // Wait for transaction
-    await aptosClient.waitForTransaction(pendingTx.hash);
-    console.log(`Transaction submitted! Hash: ${pendingTx.hash}`);
+    const committedTx = await submitAptosTransaction(aptosClient, aptosSigner, payload);
+    console.log(`Transaction committed! Hash: ${committedTx.hash}`);
     
   } catch (error) {
     console.error(`Error executing EVM transaction:`, error);
@@ -436,17 +876,22 @@ async function executeOnEvm(
 
 // Command line interface
 async function main(): Promise<void> {
-  const args = process.argv.slice(2);
+  const args = process.argv.slice(2).filter((arg) => arg !== EPHEMERAL_FLAG && arg !== STANDING_APPROVAL_FLAG);
+  const standing = process.argv.includes(STANDING_APPROVAL_FLAG);
   const command = args[0];
   
+  if (command) {
+    printConfig();
+  }
+  
   if (command === 'etherlink-to-aptos') {
     // Check if we have required args
-    if (args.length < 3) {
-      console.log('Usage: npm run etherlink-bridge etherlink-to-aptos <amount> <receiver_address>');
+    if (args.length < 4) {
+      console.log(`Usage: npm run etherlink-bridge etherlink-to-aptos <amount> <aptos_receiver> <etherlink_recipient> [${STANDING_APPROVAL_FLAG}]`);
       process.exit(1);
     }
     
-    await initiateEtherlinkToAptosSwap(args[1], args[2]);
+    await initiateEtherlinkToAptosSwap(args[1], args[2], args[3], { standing });
   } else if (command === 'complete-etherlink-to-aptos') {
     // Check if we have required args
     if (args.length < 3) {
@@ -457,12 +902,12 @@ async function main(): Promise<void> {
     await completeEtherlinkToAptosSwap(args[1], args[2]);
   } else if (command === 'aptos-to-etherlink') {
     // Check if we have required args
-    if (args.length < 3) {
-      console.log('Usage: npm run etherlink-bridge aptos-to-etherlink <amount> <receiver_address>');
+    if (args.length < 4) {
+      console.log('Usage: npm run etherlink-bridge aptos-to-etherlink <amount> <etherlink_receiver> <aptos_recipient>');
       process.exit(1);
     }
     
-    await initiateAptosToEtherlinkSwap(args[1], args[2]);
+    await initiateAptosToEtherlinkSwap(args[1], args[2], args[3]);
   } else if (command === 'complete-aptos-to-etherlink') {
     // Check if we have required args
     if (args.length < 3) {
@@ -471,6 +916,8 @@ async function main(): Promise<void> {
     }
     
     await completeAptosToEtherlinkSwap(args[1], args[2]);
+  } else if (command === 'refund') {
+    await refundExpiredSwaps(args.includes('--dry-run'));
   } else if (command === 'execute-evm') {
     if (args.length < 5) {
       console.error('Usage: execute-evm <chain_id> <contract_address> <calldata> <gas_limit>');
@@ -488,10 +935,13 @@ async function main(): Promise<void> {
 Unreal Cross-Chain Bridge CLI
 
 Available commands:
-  etherlink-to-aptos <amount> <receiver_address>  - Initiate swap from Etherlink to Aptos
+  etherlink-to-aptos <amount> <aptos_receiver> <etherlink_recipient> [--standing-approval]
+                                                  - Initiate swap from Etherlink to Aptos
   complete-etherlink-to-aptos <swap_id> <secret>  - Complete swap on Aptos side
-  aptos-to-etherlink <amount> <receiver_address>  - Initiate swap from Aptos to Etherlink
+  aptos-to-etherlink <amount> <etherlink_receiver> <aptos_recipient>
+                                                  - Initiate swap from Aptos to Etherlink
   complete-aptos-to-etherlink <swap_id> <secret>  - Complete swap on Etherlink side
+  refund [--dry-run]                              - Refund expired, unclaimed locks on both chains
   execute-evm <chain_id> <contract_address> <calldata> <gas_limit> - Execute EVM tx from Aptos
 `);
   }
@@ -508,9 +958,12 @@ if (require.main === module) {
 }
 
 export {
+  SwapCompletionDetails,
+  CompletionResult,
   initiateEtherlinkToAptosSwap,
   completeEtherlinkToAptosSwap,
   initiateAptosToEtherlinkSwap,
   completeAptosToEtherlinkSwap,
+  refundExpiredSwaps,
   executeOnEvm,
 };
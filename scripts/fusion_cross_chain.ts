@@ -1,113 +1,160 @@
-import { AptosClient, AptosAccount, CoinClient, Types } from "aptos"
-import { ethers } from "ethers"
-import * as dotenv from "dotenv"
+import { AptosClient, HexString } from "aptos"
+import {
+  Address,
+  formatEther,
+  Hex,
+  parseEther,
+  TransactionReceipt,
+  zeroHash,
+} from "viem"
+import * as crypto from "crypto"
 import * as fs from "fs"
-import * as path from "path"
-import { config } from "../config"
-import { executeOnEvm } from "./etherlink_bridge"
-
-// Load environment variables
-dotenv.config()
+import { config, printConfig } from "../config"
+import {
+  aptosLockLookupId,
+  getAptosLedgerTime,
+  readAptosLocks,
+} from "./lib/aptos_htlc"
+import { lockEndtime, lookupLockId } from "./lib/lock_id"
+import { assertClaimable, generateSecret } from "./lib/hashlock"
+import {
+  EtherlinkClient,
+  getEtherlinkClient,
+  InitiateSwapParams,
+} from "./lib/etherlink"
+import { submitAptosTransaction } from "./lib/aptos_tx"
+import {
+  EPHEMERAL_FLAG,
+  etherlinkAccountFromKey,
+  getAptosSigner,
+} from "./lib/signers"
+import {
+  AllowanceOptions,
+  ensureAllowance,
+  STANDING_APPROVAL_FLAG,
+} from "./lib/allowance"
+import { getSwapStore, NewSwap, SwapPatch } from "./lib/swap_store"
+import {
+  configuredLimits,
+  createInventory,
+  Reservation,
+  SolverInventory,
+} from "./lib/inventory"
+import { errorMessage } from "./lib/errors"
+import { sleep } from "./lib/retry"
+import {
+  EIP712_DOMAIN,
+  EIP712_TYPES,
+  normalizeOrderAddresses,
+  OffchainOrder,
+  OrderFilter,
+  orderHashlock,
+  orderKey,
+  orderMessage,
+  verifyOrderSignature,
+} from "./lib/orders"
+import { submitOrder, subscribeOrders } from "./lib/order_book_client"
+import {
+  AUCTION_CURVES,
+  AuctionCurveKind,
+  AuctionShape,
+  LINEAR_AUCTION,
+} from "./lib/auction"
+import {
+  decideFill,
+  estimateFillCosts,
+  FillDecision,
+  fillAmount,
+  FillPlan,
+  solverPricing,
+} from "./lib/profitability"
+import {
+  ChainDecimals,
+  formatAmount,
+  fromRaw,
+  loadUnrealDecimals,
+  parseChainAmount,
+  toChainAmount,
+} from "./lib/amount"
+
+// CLI flag of `create-order` for an order from Aptos to Etherlink
+const APTOS_TO_ETHERLINK_FLAG = "--aptos-to-etherlink"
+
+// CLI option of `create-order` choosing the auction curve, e.g. `--curve=exponential`
+const CURVE_OPTION = "--curve="
+
+// Longest the solver waits for a fill before re-estimating its costs, in seconds
+const FILL_RECHECK_SECONDS = 60
+
+// Milliseconds before the solver resubscribes to the order book
+const RECONNECT_DELAY = 5000
+
+// Seconds the solver's Etherlink lock runs when the maker's Aptos lock allows it
+const ETHERLINK_LOCK_SECONDS = 12 * 60 * 60
+
+// Seconds the maker's Aptos lock must outlive the solver's Etherlink lock,
+// for the solver to withdraw on Aptos after a last-moment claim on Etherlink
+const TIMELOCK_MARGIN_SECONDS = 6 * 60 * 60
+
+// Fewest seconds the receiver must get to claim the solver's Etherlink lock
+const MIN_CLAIM_WINDOW_SECONDS = 60 * 60
+
+// Timeout the maker is asked to give its Aptos lock, in hours
+const MAKER_LOCK_HOURS = 24
+
+// Milliseconds between checks while waiting on either chain
+const SETTLEMENT_POLL_INTERVAL = 15000
 
 // Initialize Aptos client
 const aptosClient = new AptosClient(config.aptosNodeUrl)
-const coinClient = new CoinClient(aptosClient)
-
-// Initialize Etherlink provider and signer
-const etherlinkProvider = new ethers.providers.JsonRpcProvider(
-  config.etherlinkRpcUrl
-)
-const etherlinkWallet = new ethers.Wallet(
-  config.etherlinkPrivateKey,
-  etherlinkProvider
-)
-
-// Load contract ABIs
-const htlcArtifact = JSON.parse(
-  fs.readFileSync(
-    path.join(
-      __dirname,
-      "../../../artifacts/contracts/UnrealHTLC.sol/UnrealHTLC.json"
-    ),
-    "utf8"
-  )
-)
-const tokenArtifact = JSON.parse(
-  fs.readFileSync(
-    path.join(
-      __dirname,
-      "../../../artifacts/contracts/UnrealToken.sol/UnrealToken.json"
-    ),
-    "utf8"
-  )
-)
-
-// Extract ABIs from artifacts
-const htlcAbi = htlcArtifact.abi
-const tokenAbi = tokenArtifact.abi
-
-// Contract instances
-const htlcContract = new ethers.Contract(
-  config.etherlinkHtlcAddress,
-  htlcAbi,
-  etherlinkWallet
-)
-const tokenContract = new ethers.Contract(
-  config.unrealTokenAddress,
-  tokenAbi,
-  etherlinkWallet
-)
-
-// Define the offchain order structure
-interface OffchainOrder {
-  maker: string // Address of the maker (user)
-  sourceChainId: number // Source chain ID
-  targetChainId: number // Target chain ID
-  sourceToken: string // Source token address
-  targetToken: string // Target token address
-  amount: string // Amount to swap
-  minReturn: string // Minimum amount to receive after swap
-  receiver: string // Address to receive swapped tokens
-  deadline: number // Order deadline timestamp
-  nonce: string // Unique nonce to prevent replay attacks
-  startPrice: string // Starting price for Dutch auction
-  endPrice: string // Ending price for Dutch auction
-  startTime: number // Auction start timestamp
-  endTime: number // Auction end timestamp
-  signature: string // EIP-712 signature
-}
 
-// EIP-712 domain and types for structured data signing
-const EIP712_DOMAIN = {
-  name: "UnrealFusion",
-  version: "1",
-  chainId: config.etherlinkChainId, // Use the chain ID from config
-  verifyingContract: config.etherlinkHtlcAddress,
+// Etherlink locks taken so far; each waits for the previous one
+let etherlinkLocks: Promise<unknown> = Promise.resolve()
+
+// UnrealToken decimals on both chains, read once on first use
+let unrealDecimals: Promise<ChainDecimals> | undefined
+
+/**
+ * Get UnrealToken decimals from `coin::decimals` on Aptos and `decimals()` on Etherlink
+ */
+function getUnrealDecimals(): Promise<ChainDecimals> {
+  if (!unrealDecimals) {
+    unrealDecimals = loadUnrealDecimals(aptosClient, () =>
+      getEtherlinkClient().decimals()
+    )
+  }
+  return unrealDecimals
 }
 
-// EIP-712 types for order signing
-const EIP712_TYPES = {
-  Order: [
-    { name: "maker", type: "address" },
-    { name: "sourceChainId", type: "uint256" },
-    { name: "targetChainId", type: "uint256" },
-    { name: "sourceToken", type: "address" },
-    { name: "targetToken", type: "address" },
-    { name: "amount", type: "uint256" },
-    { name: "minReturn", type: "uint256" },
-    { name: "receiver", type: "address" },
-    { name: "deadline", type: "uint256" },
-    { name: "nonce", type: "uint256" },
-    { name: "startPrice", type: "uint256" },
-    { name: "endPrice", type: "uint256" },
-    { name: "startTime", type: "uint256" },
-    { name: "endTime", type: "uint256" },
-  ],
+// The solver's inventory, created on first use
+let inventory: Promise<SolverInventory> | undefined
+
+/**
+ * Get the inventory of the solver's Etherlink and Aptos accounts
+ * @param solverWallet Solver's wallet
+ */
+function getInventory(solverWallet: EtherlinkClient): Promise<SolverInventory> {
+  if (!inventory) {
+    inventory = getUnrealDecimals().then((decimals) =>
+      createInventory(
+        {
+          etherlink: solverWallet,
+          aptosClient,
+          // Resolved here, so only the solver's commands need an Aptos signer
+          aptosAddress: getAptosSigner().address().hex(),
+          store: getSwapStore(),
+          decimals,
+        },
+        configuredLimits(decimals)
+      )
+    )
+  }
+  return inventory
 }
 
 /**
  * Create and sign an offchain order for cross-chain swap
- * @param wallet Ethers wallet to sign the order
+ * @param wallet Etherlink client of the maker, used to sign the order
  * @param sourceChainId Source chain ID
  * @param targetChainId Target chain ID
  * @param sourceToken Source token address
@@ -119,10 +166,12 @@ const EIP712_TYPES = {
  * @param startPrice Start price for Dutch auction
  * @param endPrice End price for Dutch auction
  * @param duration Auction duration in seconds
+ * @param hashlock Hashlock of the maker's secret, for swaps where the maker holds it
+ * @param auction Curve of the Dutch auction, with prices in wei
  * @returns Signed offchain order
  */
 async function createSignedOrder(
-  wallet: ethers.Wallet,
+  wallet: EtherlinkClient,
   sourceChainId: number,
   targetChainId: number,
   sourceToken: string,
@@ -133,39 +182,52 @@ async function createSignedOrder(
   deadline: number,
   startPrice: string,
   endPrice: string,
-  duration: number
+  duration: number,
+  hashlock?: Hex,
+  auction: AuctionShape = LINEAR_AUCTION
 ): Promise<OffchainOrder> {
   // Generate a random nonce
-  const nonce = ethers.BigNumber.from(ethers.utils.randomBytes(32)).toString()
+  const nonce = BigInt("0x" + crypto.randomBytes(32).toString("hex")).toString()
 
-  // Calculate auction times
-  const startTime = Math.floor(Date.now() / 1000)
+  // The auction runs on Etherlink block time, which solvers price it at
+  const startTime = Number((await wallet.publicClient.getBlock()).timestamp)
   const endTime = startTime + duration
 
+  // Token amounts are denominated in UnrealToken base units on Etherlink
+  const decimals = await getUnrealDecimals()
+
   // Create the order object for signing
   const orderData = {
-    maker: await wallet.getAddress(),
+    maker: wallet.address,
     sourceChainId,
     targetChainId,
     sourceToken,
     targetToken,
-    amount: ethers.utils.parseEther(amount).toString(),
-    minReturn: ethers.utils.parseEther(minReturn).toString(),
+    amount: parseChainAmount(amount, "Etherlink", decimals).raw.toString(),
+    minReturn: parseChainAmount(
+      minReturn,
+      "Etherlink",
+      decimals
+    ).raw.toString(),
     receiver,
     deadline,
     nonce,
-    startPrice: ethers.utils.parseEther(startPrice).toString(),
-    endPrice: ethers.utils.parseEther(endPrice).toString(),
+    startPrice: parseEther(startPrice).toString(),
+    endPrice: parseEther(endPrice).toString(),
     startTime,
     endTime,
+    auctionCurve: auction.auctionCurve,
+    auctionPoints: auction.auctionPoints,
+    hashlock: hashlock ?? zeroHash,
   }
 
   // Sign the order using EIP-712
-  const signature = await wallet._signTypedData(
-    EIP712_DOMAIN,
-    EIP712_TYPES,
-    orderData
-  )
+  const signature = await wallet.walletClient.signTypedData({
+    domain: EIP712_DOMAIN,
+    types: EIP712_TYPES,
+    primaryType: "Order",
+    message: orderMessage(orderData),
+  })
 
   // Return the full order with signature
   return {
@@ -175,286 +237,604 @@ async function createSignedOrder(
 }
 
 /**
- * Verify an order signature
- * @param order Order to verify
- * @returns Boolean indicating if signature is valid
+ * What filling an order takes from the solver
+ *
+ * For an Etherlink -> Aptos order the solver locks the order amount until the
+ * deadline; for an Aptos -> Etherlink order it locks the amount it delivers at
+ * the auction price for up to `ETHERLINK_LOCK_SECONDS` and withdraws the
+ * maker's lock on Aptos.
+ * @param order Order to fill
+ * @param now Current block timestamp in seconds
  */
-function verifyOrderSignature(order: OffchainOrder): boolean {
-  try {
-    // Extract the order data without the signature
-    const { signature, ...orderData } = order
-
-    // Recover the signer address
-    const recoveredAddress = ethers.utils.verifyTypedData(
-      EIP712_DOMAIN,
-      EIP712_TYPES,
-      orderData,
-      signature
-    )
-
-    // Compare with the maker address
-    return recoveredAddress.toLowerCase() === order.maker.toLowerCase()
-  } catch (error) {
-    console.error("Error verifying signature:", error)
-    return false
+function fillPlan(order: OffchainOrder, now: number): FillPlan {
+  if (order.sourceChainId === config.etherlinkChainId) {
+    return {
+      lockAmount: BigInt(order.amount),
+      lockSeconds: Math.max(order.deadline - now, 0),
+      claimsOnAptos: false,
+    }
+  }
+  return {
+    lockAmount: fillAmount(order, BigInt(now)),
+    lockSeconds: ETHERLINK_LOCK_SECONDS,
+    claimsOnAptos: true,
   }
 }
 
 /**
- * Calculate current Dutch auction price
- * @param order The order with auction parameters
- * @returns Current price
+ * Wait for the earliest moment an order is profitable to fill
+ *
+ * Costs are re-estimated at least every `FILL_RECHECK_SECONDS` while
+ * waiting, since gas prices move. Every decision is recorded in the swap
+ * store's decision log.
+ * @param order Order to fill
+ * @param solverWallet Solver's wallet
+ * @returns The decision to fill, or undefined if the order was skipped
  */
-function calculateCurrentPrice(order: OffchainOrder): string {
-  const now = Math.floor(Date.now() / 1000)
-
-  // If auction hasn't started yet, return start price
-  if (now < order.startTime) {
-    return order.startPrice
-  }
-
-  // If auction has ended, return end price
-  if (now >= order.endTime) {
-    return order.endPrice
-  }
+async function scheduleFill(
+  order: OffchainOrder,
+  solverWallet: EtherlinkClient
+): Promise<FillDecision | undefined> {
+  const pricing = solverPricing()
+  const decimals = (await getUnrealDecimals()).Etherlink
+  const store = getSwapStore()
+  const key = orderKey(order)
 
-  // Calculate price based on linear interpolation
-  const startPrice = ethers.BigNumber.from(order.startPrice)
-  const endPrice = ethers.BigNumber.from(order.endPrice)
-  const elapsed = now - order.startTime
-  const duration = order.endTime - order.startTime
-  const progress = elapsed / duration
+  while (true) {
+    // Price the auction at the latest block, the same for every solver
+    const block = await solverWallet.publicClient.getBlock()
+    const plan = fillPlan(order, Number(block.timestamp))
+    const costs = await estimateFillCosts(
+      solverWallet,
+      aptosClient,
+      plan,
+      pricing,
+      decimals
+    )
+    const decision = decideFill(
+      order,
+      block.timestamp,
+      plan,
+      costs,
+      pricing,
+      decimals
+    )
 
-  // Linear interpolation: startPrice - (startPrice - endPrice) * progress
-  const priceDiff = startPrice.sub(endPrice)
-  const priceReduction = priceDiff.mul(Math.floor(progress * 10000)).div(10000)
-  const currentPrice = startPrice.sub(priceReduction)
+    store.recordDecision({
+      orderKey: key,
+      action: decision.action,
+      reason: decision.reason,
+      blockTimestamp: Number(block.timestamp),
+      details: {
+        auctionCurve: order.auctionCurve,
+        auctionPrice: decision.auctionPrice.toString(),
+        fillAmount: decision.fillAmount.toString(),
+        revenue: decision.revenue.toString(),
+        etherlinkGas: decision.costs.etherlinkGas.toString(),
+        aptosGas: decision.costs.aptosGas.toString(),
+        inventory: decision.costs.inventory.toString(),
+        profit: decision.profit.toString(),
+        ...(decision.fillAt !== undefined && { fillAt: decision.fillAt.toString() }),
+      },
+    })
+    console.log(
+      `Order ${key} at block ${block.number}: ${decision.action}, ${decision.reason} ` +
+        `(auction price ${formatEther(decision.auctionPrice)} ETH, profit ${formatEther(decision.profit)} ETH)`
+    )
 
-  return currentPrice.toString()
+    if (decision.action !== "wait") {
+      return decision.action === "fill" ? decision : undefined
+    }
+    const wait = Number(decision.fillAt! - block.timestamp)
+    await sleep(Math.min(wait, FILL_RECHECK_SECONDS) * 1000)
+  }
 }
 
 /**
  * Solver function to execute a cross-chain swap based on an order
- * @param order The signed order to execute
+ * @param signedOrder The signed order to execute
  * @param solverWallet The solver's wallet
+ * @param allowanceOptions Whether to grant the HTLC a standing allowance
  */
 async function executeOrderAsSolver(
-  order: OffchainOrder,
-  solverWallet: ethers.Wallet
+  signedOrder: OffchainOrder,
+  solverWallet: EtherlinkClient,
+  allowanceOptions: AllowanceOptions = {}
 ): Promise<void> {
   try {
     console.log(`Executing order as solver...`)
 
     // Verify order signature
-    if (!verifyOrderSignature(order)) {
+    if (!(await verifyOrderSignature(signedOrder))) {
       throw new Error("Invalid order signature")
     }
 
+    // Both addresses must belong to the chains they are used on
+    const order = normalizeOrderAddresses(signedOrder)
+
     // Check if order is expired
     const now = Math.floor(Date.now() / 1000)
     if (now > order.deadline) {
       throw new Error("Order expired")
     }
 
-    // Calculate current auction price
-    const currentPrice = calculateCurrentPrice(order)
-    console.log(
-      `Current auction price: ${ethers.utils.formatEther(currentPrice)} ETH`
+    // Fill at the earliest profitable point of the auction, if any
+    const fill = await scheduleFill(order, solverWallet)
+    if (!fill) {
+      return
+    }
+
+    // Set the lock's funds aside, queueing while they are committed elsewhere
+    const plan = fillPlan(order, Number(fill.blockTimestamp))
+    const reservation = await (await getInventory(solverWallet)).reserve(
+      orderKey(order),
+      plan.lockAmount,
+      order.deadline
     )
 
-    // Determine if this is an Etherlink to Aptos or Aptos to Etherlink swap
-    if (order.sourceChainId === config.etherlinkChainId) {
-      // Etherlink to Aptos swap
-      await executeEtherlinkToAptosSwap(order, solverWallet, currentPrice)
-    } else if (order.targetChainId === config.etherlinkChainId) {
-      // Aptos to Etherlink swap
-      await executeAptosToEtherlinkSwap(order, solverWallet, currentPrice)
-    } else {
-      throw new Error("Unsupported chain combination")
+    try {
+      // Determine if this is an Etherlink to Aptos or Aptos to Etherlink swap
+      if (order.sourceChainId === config.etherlinkChainId) {
+        // Etherlink to Aptos swap
+        await executeEtherlinkToAptosSwap(
+          order,
+          solverWallet,
+          fill,
+          allowanceOptions,
+          reservation
+        )
+      } else if (order.targetChainId === config.etherlinkChainId) {
+        // Aptos to Etherlink swap
+        await executeAptosToEtherlinkSwap(
+          order,
+          solverWallet,
+          fill,
+          allowanceOptions,
+          reservation
+        )
+      } else {
+        throw new Error("Unsupported chain combination")
+      }
+    } finally {
+      reservation.release()
     }
   } catch (error) {
     console.error("Error executing order:", error)
   }
 }
 
+/**
+ * Let the HTLC pull the tokens and lock them
+ *
+ * Orders execute concurrently, so locks are taken one at a time to keep
+ * allowance updates and locks from racing each other.
+ * @param solverWallet Solver's wallet
+ * @param params Lock to create
+ * @param allowanceOptions Whether to grant the HTLC a standing allowance
+ * @throws Error if the balance is short, before any transaction is sent
+ */
+function lockOnEtherlink(
+  solverWallet: EtherlinkClient,
+  params: InitiateSwapParams,
+  allowanceOptions: AllowanceOptions
+): Promise<{ swapId: Hex; receipt: TransactionReceipt }> {
+  const lock = etherlinkLocks.then(async () => {
+    console.log(`Checking balance and allowance...`)
+    await ensureAllowance(
+      solverWallet,
+      config.etherlinkHtlcAddress as Address,
+      params.amount,
+      allowanceOptions
+    )
+    console.log(`Locking funds in HTLC...`)
+    return solverWallet.initiateSwap(params)
+  })
+  etherlinkLocks = lock.catch(() => undefined)
+  return lock
+}
+
+/**
+ * Record a swap the solver settles itself
+ *
+ * The swap is marked with the solver's address so the relayer never pays it
+ * out a second time. The relayer may have recorded the same lock first, under
+ * the same ID; that record is then taken over.
+ * @param solverWallet Solver's wallet
+ * @param swap The swap as the solver sees it
+ * @param reason What the solver did
+ */
+function recordSolverSwap(
+  solverWallet: EtherlinkClient,
+  swap: NewSwap,
+  reason: string
+): void {
+  const store = getSwapStore()
+  const metadata = { ...swap.metadata, solver: solverWallet.address }
+  if (store.insertSwap({ ...swap, metadata }, reason)) {
+    return
+  }
+  const legs: SwapPatch["legs"] = {}
+  for (const { chain, ...fields } of swap.legs ?? []) {
+    legs[chain] = fields
+  }
+  store.updateSwap(swap.id, { secret: swap.secret, legs, metadata })
+  console.log(`Took over swap ${swap.id} recorded by the relayer`)
+}
+
 /**
  * Execute Etherlink to Aptos swap
  * @param order The order to execute
  * @param solverWallet Solver's wallet
- * @param feeAmount Fee amount for the solver
+ * @param fill Decision to fill, with the auction price and the amount the solver delivers
+ * @param allowanceOptions Whether to grant the HTLC a standing allowance
+ * @param reservation Inventory reservation of the lock's funds, released once the lock is recorded
  */
 async function executeEtherlinkToAptosSwap(
   order: OffchainOrder,
-  solverWallet: ethers.Wallet,
-  feeAmount: string
+  solverWallet: EtherlinkClient,
+  fill: FillDecision,
+  allowanceOptions: AllowanceOptions = {},
+  reservation?: Reservation
 ): Promise<void> {
   console.log(`Executing Etherlink -> Aptos swap...`)
 
   try {
-    // Connect to contracts with solver wallet
-    const solverHtlc = htlcContract.connect(solverWallet)
-    const solverToken = tokenContract.connect(solverWallet)
-
-    // Generate a secret hash for the HTLC
-    const secret = ethers.utils.randomBytes(32)
-    const secretHash = ethers.utils.keccak256(secret)
-    console.log(`Generated secret: ${ethers.utils.hexlify(secret)}`)
+    // Generate a secret with its hashlock on each chain
+    const { secret, hashlocks } = generateSecret()
+    const secretHash = hashlocks.Etherlink
+    const aptosSecretHash = hashlocks.Aptos
+    console.log(`Generated secret: ${secret}`)
     console.log(`Secret hash: ${secretHash}`)
+    console.log(`Aptos hashlock: ${aptosSecretHash}`)
 
-    // Approve tokens for HTLC
-    console.log(`Approving token transfer...`)
-    const approveTx = await solverToken.approve(
-      config.etherlinkHtlcAddress,
-      order.amount
-    )
-    await approveTx.wait()
-    console.log(`Approval transaction: ${approveTx.hash}`)
-
-    // Derive EVM compatible address from Aptos address
-    // For the receiver, we'll use the address as is since it's already in EVM format for testing
-    const evmCompatibleAddress = order.receiver
+    // The solver pays the receiver out on Aptos, so it withdraws the Etherlink lock
+    const etherlinkRecipient = solverWallet.address
 
     // Compute unix timestamp (seconds) for deterministic swap ID
     const unixTimestamp = Math.floor(Date.now() / 1000)
     // Arg order: SECRET_HASH RECIPIENT AMOUNT TIMELOCK_HOURS SOURCE_CHAIN RECEIVER_EVM TIMESTAMP
-    // Convert 18 decimal amount to 6 decimals for Aptos
-    const amount6 = (BigInt(order.amount) / 1000000000000n).toString()
+    // The receiver gets the amount of the auction price, in UnrealToken decimals on Aptos
+    const decimals = await getUnrealDecimals()
+    const aptosAmount = toChainAmount(
+      fromRaw(fill.fillAmount, decimals.Etherlink),
+      "Aptos",
+      decimals
+    ).raw.toString()
 
-    order.amount = amount6
     console.log(
-      `\nNext step: Lock funds in HTLC\njust lock-funds ${secretHash} ${order.receiver} ${amount6} 24 Etherlink ${evmCompatibleAddress} ${unixTimestamp}\n`
+      `\nNext step: Lock funds in HTLC\njust lock-funds ${aptosSecretHash} ${order.receiver} ${aptosAmount} 24 Etherlink ${etherlinkRecipient} ${unixTimestamp}\n`
     )
 
     // Lock funds in HTLC using initiateSwap function
-    console.log(`Locking funds in HTLC...`)
-
-    const lockTx = await solverHtlc.initiateSwap(
-      secretHash,
-      evmCompatibleAddress,
-      order.amount,
-      order.deadline,
-      "Aptos", // Target chain identifier
-      order.receiver // Original receiver address as string in target chain data
+    // The swap ID is taken from the SwapInitiated event of the lock transaction
+    const { swapId, receipt } = await lockOnEtherlink(
+      solverWallet,
+      {
+        secretHash,
+        recipient: etherlinkRecipient,
+        amount: BigInt(order.amount),
+        timelock: BigInt(order.deadline),
+        targetChain: "Aptos", // Target chain identifier
+        targetAddress: order.receiver, // Aptos receiver as string in target chain data
+      },
+      allowanceOptions
     )
-    await lockTx.wait()
-    console.log(`Lock transaction: ${lockTx.hash}`)
-
-    // Extract swap ID from the transaction receipt events
-    const receipt = await lockTx.wait()
-
-    // Decode events to find SwapInitiated and fetch lockContractId
-    const iface = new ethers.utils.Interface(htlcAbi)
-    let swapId: string | undefined
-    for (const log of receipt.logs) {
-      try {
-        const parsed = iface.parseLog(log)
-        if (parsed.name === "SwapInitiated") {
-          // Event args: (lockContractId indexed, secretHash, ...)
-          swapId = parsed.args.lockContractId as string
-          break
-        }
-      } catch (_) {
-        /* log not from HTLC */
-      }
-    }
-
-    // Fallback: derive deterministic ID if event not found
-    if (!swapId) {
-      swapId = ethers.utils.keccak256(
-        ethers.utils.concat([
-          ethers.utils.arrayify(secretHash),
-          ethers.utils.arrayify(lockTx.hash),
-        ])
-      )
-    }
+    console.log(`Lock transaction: ${receipt.transactionHash}`)
     console.log(`Swap ID: ${swapId}`)
 
     // Print just command for Aptos-side swap initiation
     console.log(`\nNext step: Initiate the corresponding swap on Aptos:`)
     console.log(
-      `just initiate-swap ${secretHash} ${order.receiver} ${order.amount} 24 Etherlink ${solverWallet.address} ${unixTimestamp}`
+      `just initiate-swap ${aptosSecretHash} ${order.receiver} ${aptosAmount} 24 Etherlink ${solverWallet.address} ${unixTimestamp}`
     )
+    // `just initiate-swap` runs as APTOS_ACCOUNT, the account that publishes the module
+    const aptosLockId = lookupLockId({
+      secretHash: aptosSecretHash,
+      recipient: order.receiver,
+      sender: config.aptosModuleAddress,
+      amount: aptosAmount,
+      endtime: lockEndtime(unixTimestamp, 24),
+    })
     console.log(`\nNext step: User claims on Aptos:`)
-    console.log(`just claim-swap ${swapId} ${ethers.utils.hexlify(secret)}`)
+    console.log(
+      `just claim-swap ${aptosLockId} ${secret}`
+    )
 
     // Store the swap details for the solver to track
-    const swapDetails = {
-      swapId,
-      secret: ethers.utils.hexlify(secret),
-      secretHash,
-      sourceChain: "Etherlink",
-      targetChain: "Aptos",
-      amount: order.amount,
-      deadline: order.deadline,
-      maker: order.maker,
-      receiver: order.receiver,
-      fee: feeAmount,
-    }
-
-    console.log(`Swap details:`, JSON.stringify(swapDetails, null, 2))
+    const store = getSwapStore()
+    recordSolverSwap(
+      solverWallet,
+      {
+        id: swapId,
+        sourceChain: "Etherlink",
+        targetChain: "Aptos",
+        status: "source_locked",
+        secretHash,
+        secret,
+        amount: formatAmount(fromRaw(order.amount, decimals.Etherlink)),
+        sender: solverWallet.address,
+        receiver: order.receiver,
+        legs: [
+          {
+            chain: "Etherlink",
+            lockId: swapId,
+            sender: solverWallet.address,
+            recipient: etherlinkRecipient,
+            amount: order.amount,
+            hashlock: secretHash,
+            endtime: order.deadline,
+            initTx: receipt.transactionHash,
+          },
+          {
+            chain: "Aptos",
+            lockId: aptosLockId,
+            recipient: order.receiver,
+            amount: aptosAmount,
+            hashlock: aptosSecretHash,
+            endtime: Number(lockEndtime(unixTimestamp, 24)),
+          },
+        ],
+        metadata: { maker: order.maker, deadline: order.deadline, auctionPrice: fill.auctionPrice.toString() },
+      },
+      "locked on Etherlink by solver"
+    )
+    // The lock is recorded, so the inventory counts it as locked from here on
+    reservation?.release()
 
-    // Save swap details to file for the solver
-    fs.writeFileSync(
-      `swap_${swapId}.json`,
-      JSON.stringify(swapDetails, null, 2)
+    console.log(
+      `Swap details saved to ${store.file}:`,
+      JSON.stringify(store.getSwap(swapId), null, 2)
     )
   } catch (error) {
     console.error(`Error executing Etherlink to Aptos swap:`, error)
   }
 }
 
+// An open Aptos lock of the maker, as read from `UnrealHTLCState`
+interface MakerLock {
+  // ID that `withdraw` accepts
+  lockId: string
+  sender: string
+  amount: bigint
+  endtime: number
+}
+
+/**
+ * Wait for the maker's Aptos lock backing an order
+ * @param hashlock Hashlock of the maker's secret, as signed into the order
+ * @param recipient The solver's Aptos address
+ * @param minAmount Least amount the lock must hold, in Aptos base units
+ * @param deadline Order deadline; the maker must have locked by then
+ * @throws Error if no matching lock appears before the deadline
+ */
+async function waitForMakerLock(
+  hashlock: Hex,
+  recipient: string,
+  minAmount: bigint,
+  deadline: number
+): Promise<MakerLock> {
+  const solver = HexString.ensure(recipient).toShortString()
+  while (true) {
+    const lock = (await readAptosLocks(aptosClient)).find(
+      (lock) =>
+        HexString.ensure(lock.secret_hash).hex() === hashlock &&
+        HexString.ensure(lock.recipient).toShortString() === solver &&
+        BigInt(lock.amount) >= minAmount &&
+        !lock.withdrawn &&
+        !lock.refunded
+    )
+    if (lock) {
+      return {
+        lockId: aptosLockLookupId(lock),
+        sender: lock.sender,
+        amount: BigInt(lock.amount),
+        endtime: Number(lock.endtime),
+      }
+    }
+    if ((await getAptosLedgerTime(aptosClient)) > deadline) {
+      throw new Error(
+        `The maker did not lock ${minAmount} on Aptos under ${hashlock} before the order deadline`
+      )
+    }
+    await sleep(SETTLEMENT_POLL_INTERVAL)
+  }
+}
+
+/**
+ * Wait until the receiver claims the solver's Etherlink lock, revealing the secret
+ * @param solverWallet Solver's wallet
+ * @param swapId ID of the solver's Etherlink lock
+ * @param timelock Timelock of that lock
+ * @returns The secret, or undefined once the timelock passed unclaimed
+ */
+async function waitForEtherlinkSecret(
+  solverWallet: EtherlinkClient,
+  swapId: Hex,
+  timelock: number
+): Promise<Hex | undefined> {
+  while (true) {
+    const [lock, latest] = await Promise.all([
+      solverWallet.getSwap(swapId),
+      solverWallet.publicClient.getBlock(),
+    ])
+    if (lock.withdrawn) {
+      return lock.secret
+    }
+    if (lock.refunded || Number(latest.timestamp) >= timelock) {
+      return undefined
+    }
+    await sleep(SETTLEMENT_POLL_INTERVAL)
+  }
+}
+
 /**
  * Execute Aptos to Etherlink swap
- * @param order The order to execute
+ *
+ * The maker holds the secret, so the solver locks nothing until the maker's
+ * Aptos lock for the solver is on chain under the order's hashlock: the
+ * receiver could otherwise claim the Etherlink lock without the maker ever
+ * locking. Both HTLCs hash the secret alike, so the solver locks on
+ * Etherlink under the same hashlock, and the secret the receiver reveals
+ * there opens the maker's lock. The solver's Etherlink lock expires `TIMELOCK_MARGIN_SECONDS` before the maker's Aptos lock, so a
+ * secret revealed on Etherlink at the last moment still leaves the solver time
+ * to withdraw on Aptos. An Etherlink lock nobody claims is refunded.
+ * @param order The order to execute; it must carry the maker's hashlock
  * @param solverWallet Solver's wallet
- * @param feeAmount Fee amount for the solver
+ * @param fill Decision to fill, with the auction price and the amount the solver delivers
+ * @param allowanceOptions Whether to grant the HTLC a standing allowance
+ * @param reservation Inventory reservation of the lock's funds, released once the lock is recorded
  */
 async function executeAptosToEtherlinkSwap(
   order: OffchainOrder,
-  solverWallet: ethers.Wallet,
-  feeAmount: string
+  solverWallet: EtherlinkClient,
+  fill: FillDecision,
+  allowanceOptions: AllowanceOptions = {},
+  reservation?: Reservation
 ): Promise<void> {
   console.log(`Executing Aptos -> Etherlink swap...`)
 
   try {
-    // For Aptos to Etherlink, solver would:
-    // 1. Create an HTLC on Aptos side
-    // 2. Wait for the user to reveal the secret on Etherlink side
-    // 3. Collect the funds on Aptos side using the revealed secret
-
-    // Generate a secret hash for the HTLC
-    const secret = ethers.utils.randomBytes(32)
-    const secretHash = ethers.utils.keccak256(secret)
-    console.log(`Generated secret: ${ethers.utils.hexlify(secret)}`)
-    console.log(`Secret hash: ${secretHash}`)
+    const hashlock = orderHashlock(order)
+    if (!hashlock) {
+      throw new Error(
+        "Aptos -> Etherlink orders must carry the hashlock of the maker's secret"
+      )
+    }
 
-    // This would involve interacting with the Aptos module to create an HTLC
-    // The exact implementation depends on your Aptos module structure
-    console.log(`Now solver needs to:
-1. Create HTLC on Aptos side with secret hash: ${secretHash}
-2. Pay ${ethers.utils.formatEther(feeAmount)} ETH to cover costs
-3. Wait for the user to claim on Etherlink using the secret: ${ethers.utils.hexlify(secret)}`)
+    // Order amounts are in UnrealToken base units on Etherlink
+    const decimals = await getUnrealDecimals()
+    const aptosAmount = toChainAmount(
+      fromRaw(order.amount, decimals.Etherlink),
+      "Aptos",
+      decimals
+    ).raw
+    // The receiver gets the amount of the auction price the order was filled at
+    const payout = fill.fillAmount
+    const solverAptosAddress = getAptosSigner().address().hex()
+
+    console.log(`Waiting for the maker to lock on Aptos for ${solverAptosAddress}, e.g. with:`)
+    console.log(
+      `just initiate-swap ${hashlock} ${solverAptosAddress} ${aptosAmount} ${MAKER_LOCK_HOURS} Etherlink ${order.receiver} ${Math.floor(Date.now() / 1000)}`
+    )
+    const makerLock = await waitForMakerLock(
+      hashlock,
+      solverAptosAddress,
+      aptosAmount,
+      order.deadline
+    )
+    console.log(
+      `Maker locked on Aptos: lock ${makerLock.lockId}, ends at ${makerLock.endtime}`
+    )
 
     // Store the swap details for the solver to track
-    const swapDetails = {
-      secretHash,
-      secret: ethers.utils.hexlify(secret),
-      sourceChain: "Aptos",
-      targetChain: "Etherlink",
-      amount: order.amount,
-      deadline: order.deadline,
-      maker: order.maker,
-      receiver: order.receiver,
-      fee: feeAmount,
-    }
+    const store = getSwapStore()
+    const id = makerLock.lockId
+    recordSolverSwap(
+      solverWallet,
+      {
+        id,
+        sourceChain: "Aptos",
+        targetChain: "Etherlink",
+        status: "source_locked",
+        secretHash: hashlock,
+        amount: formatAmount(fromRaw(order.amount, decimals.Etherlink)),
+        sender: makerLock.sender,
+        receiver: order.receiver,
+        legs: [
+          {
+            chain: "Aptos",
+            lockId: makerLock.lockId,
+            sender: makerLock.sender,
+            recipient: solverAptosAddress,
+            amount: makerLock.amount.toString(),
+            hashlock: hashlock,
+            endtime: makerLock.endtime,
+          },
+          {
+            chain: "Etherlink",
+            recipient: order.receiver,
+            amount: payout.toString(),
+            hashlock: hashlock,
+          },
+        ],
+        metadata: { maker: order.maker, deadline: order.deadline, auctionPrice: fill.auctionPrice.toString() },
+      },
+      "maker locked on Aptos for solver"
+    )
 
-    console.log(`Swap details:`, JSON.stringify(swapDetails, null, 2))
+    // Leave the receiver time to claim, and the solver time to claim after it
+    const latest = await solverWallet.publicClient.getBlock()
+    const now = Number(latest.timestamp)
+    const timelock = Math.min(
+      now + ETHERLINK_LOCK_SECONDS,
+      makerLock.endtime - TIMELOCK_MARGIN_SECONDS
+    )
+    if (timelock - now < MIN_CLAIM_WINDOW_SECONDS) {
+      throw new Error(
+        `The maker's Aptos lock ends at ${makerLock.endtime}, too soon to lock on Etherlink ${TIMELOCK_MARGIN_SECONDS}s before it`
+      )
+    }
 
-    // Save swap details to file for the solver
-    fs.writeFileSync(
-      `swap_${ethers.utils.id(secretHash + order.maker)}.json`,
-      JSON.stringify(swapDetails, null, 2)
+    // Not relayed: the lock is the destination leg of a swap the solver settles itself
+    const { swapId, receipt } = await lockOnEtherlink(
+      solverWallet,
+      {
+        secretHash: hashlock,
+        recipient: order.receiver as Address,
+        amount: payout,
+        timelock: BigInt(timelock),
+        targetChain: "Etherlink",
+        targetAddress: order.receiver,
+      },
+      allowanceOptions
+    )
+    console.log(`Locked on Etherlink: ${receipt.transactionHash}`)
+    console.log(`Etherlink swap ID: ${swapId}, timelock ${timelock}`)
+    store.transitionSwap(
+      id,
+      "destination_locked",
+      `Etherlink lock ${swapId} by solver`,
+      {
+        legs: {
+          Etherlink: {
+            lockId: swapId,
+            sender: solverWallet.address,
+            endtime: timelock,
+            initTx: receipt.transactionHash,
+          },
+        },
+      }
     )
+    reservation?.release()
+
+    const secret = await waitForEtherlinkSecret(solverWallet, swapId, timelock)
+    if (!secret) {
+      console.log(`Etherlink lock ${swapId} was not claimed, refunding it...`)
+      const refundReceipt = await solverWallet.refund(swapId)
+      store.updateSwap(id, {
+        legs: { Etherlink: { refundTx: refundReceipt.transactionHash } },
+      })
+      console.log(`Refunded: ${refundReceipt.transactionHash}`)
+      return
+    }
+
+    store.transitionSwap(id, "destination_claimed", "receiver claimed on Etherlink", {
+      secret,
+    })
+    console.log(`Secret revealed on Etherlink, withdrawing on Aptos...`)
+
+    const committedTx = await submitAptosTransaction(aptosClient, getAptosSigner(), {
+      function: `${config.aptosModuleAddress}::${config.aptosModuleName}::withdraw`,
+      type_arguments: [],
+      arguments: [
+        Buffer.from(makerLock.lockId.replace(/^0x/, ""), "hex"), // lock_id
+        Buffer.from(secret.replace(/^0x/, ""), "hex"), // preimage
+      ],
+    })
+    store.transitionSwap(id, "source_claimed", "solver withdrew on Aptos", {
+      legs: { Aptos: { claimTx: committedTx.hash } },
+    })
+    console.log(`Withdrew on Aptos: ${committedTx.hash}`)
   } catch (error) {
     console.error(`Error executing Aptos to Etherlink swap:`, error)
   }
@@ -462,166 +842,321 @@ async function executeAptosToEtherlinkSwap(
 
 /**
  * Solver monitoring function to watch for new orders and execute them
+ *
+ * Subscribes to the order book's event stream, which delivers the open orders
+ * and then each new one; the subscription is reopened when it breaks off.
+ * Orders execute concurrently, as an order may wait for its auction price to
+ * become profitable and an Aptos -> Etherlink swap waits on both chains until
+ * it settles.
  * @param solverWallet The solver's wallet
- * @param ordersFile Path to the JSON file containing orders
- * @param monitorInterval Interval in milliseconds to check for new orders
+ * @param orderBookUrl Order book to subscribe to
+ * @param filter Chain pair to receive orders for
+ * @param allowanceOptions Whether to grant the HTLC a standing allowance
  */
 async function startSolverMonitor(
-  solverWallet: ethers.Wallet,
-  ordersFile: string,
-  monitorInterval: number = 30000
+  solverWallet: EtherlinkClient,
+  orderBookUrl: string = config.orderBookUrl,
+  filter: OrderFilter = {},
+  allowanceOptions: AllowanceOptions = {}
 ): Promise<void> {
   console.log(`Starting solver monitor...`)
-  console.log(`Solver address: ${await solverWallet.getAddress()}`)
-  console.log(`Orders file: ${ordersFile}`)
+  // Fail before subscribing when the solver cannot price orders
+  solverPricing()
+  console.log(`Solver address: ${solverWallet.address}`)
+  console.log(`Order book: ${orderBookUrl}`)
 
-  // Keep track of already processed orders
+  // Keep track of already processed orders; a reconnect replays the open ones
   const processedOrders = new Set<string>()
 
-  // Monitor function
-  const monitor = async () => {
-    try {
-      // Check if orders file exists
-      if (!fs.existsSync(ordersFile)) {
-        console.log(`No orders file found. Waiting for orders...`)
-        return
-      }
-
-      // Read orders from file
-      const ordersData = JSON.parse(fs.readFileSync(ordersFile, "utf8"))
-      const orders: OffchainOrder[] = ordersData.orders || []
-
-      // Process new orders
-      for (const order of orders) {
-        // Skip already processed orders
-        const orderKey = `${order.maker}-${order.nonce}`
-        if (processedOrders.has(orderKey)) continue
-
-        // Check if order is valid and not expired
-        const now = Math.floor(Date.now() / 1000)
-        if (now > order.deadline) continue
-
-        console.log(`Found new order from ${order.maker}`)
+  const handleOrder = async (order: OffchainOrder) => {
+    const key = orderKey(order)
+    if (processedOrders.has(key)) return
 
-        // Execute the order
-        await executeOrderAsSolver(order, solverWallet)
+    // The book drops expired orders, but one may expire while queued
+    const now = Math.floor(Date.now() / 1000)
+    if (now > order.deadline) return
 
-        // Mark order as processed
-        processedOrders.add(orderKey)
-      }
-    } catch (error) {
-      console.error(`Error in solver monitor:`, error)
-    }
+    console.log(`Found new order from ${order.maker}`)
+    processedOrders.add(key)
+    // Errors are logged by executeOrderAsSolver
+    void executeOrderAsSolver(order, solverWallet, allowanceOptions)
   }
 
-  // Initial run
-  await monitor()
-  console.log(
-    `Solver monitor started. Checking every ${monitorInterval / 1000} seconds.`
-  )
-
   while (true) {
-    await monitor()
-    await new Promise((res) => setTimeout(res, monitorInterval))
+    try {
+      await subscribeOrders(orderBookUrl, filter, handleOrder)
+      console.warn(`Order book closed the subscription`)
+    } catch (error) {
+      console.error(`Order book subscription failed:`, errorMessage(error))
+    }
+    console.log(
+      `Reconnecting to the order book in ${RECONNECT_DELAY / 1000} seconds...`
+    )
+    await sleep(RECONNECT_DELAY)
   }
-
-  // Set up interval
-  // const intervalId = setInterval(monitor, monitorInterval)
-
-  // Prevent the Node.js process from exiting
-  // process.stdin.resume()
-
-  // // Handle process termination gracefully
-  // process.on("SIGINT", () => {
-  //   console.log("\nSolver monitor stopping...")
-  //   clearInterval(intervalId)
-  //   console.log("Solver monitor stopped. Exiting.")
-  //   process.exit(0)
-  // })
-
-  // // Log to show the monitor is still running
-  // setInterval(() => {
-  //   console.log(`Solver monitor still active at ${new Date().toISOString()}`)
-  // }, 300000) // Log every 5 minutes
 }
 
 /**
- * Generate a JSON file with signed order for testing
- * @param wallet User wallet to sign the order
- * @param outputFile Output file path
+ * Sign a test order and submit it to the order book
+ *
+ * For an Aptos -> Etherlink order the maker holds the secret: its hashlock
+ * is signed into the order and the secret is printed, to lock on Aptos
+ * and later claim the solver's Etherlink lock with.
+ * @param wallet Etherlink client of the user signing the order
+ * @param orderBookUrl Order book to submit the order to
+ * @param outputFile File to also write the signed order to, if any
+ * @param fromAptos Create an Aptos -> Etherlink order instead of Etherlink -> Aptos
+ * @param curve Shape of the order's auction
  */
 async function generateTestOrder(
-  wallet: ethers.Wallet,
-  outputFile: string
+  wallet: EtherlinkClient,
+  orderBookUrl: string = config.orderBookUrl,
+  outputFile?: string,
+  fromAptos = false,
+  curve: AuctionCurveKind = "linear"
 ): Promise<void> {
   console.log(`Generating test order...`)
 
+  const startPrice = parseEther("0.01")
+  const endPrice = parseEther("0.005")
+  const duration = 600
+  // The piecewise example drops half the way in the first fifth, then slowly
+  const auction: AuctionShape = {
+    auctionCurve: curve,
+    auctionPoints:
+      curve === "piecewise"
+        ? [
+            {
+              delay: duration / 5,
+              price: ((startPrice + endPrice) / 2n).toString(),
+            },
+          ]
+        : [],
+  }
+
+  const makerSecret = fromAptos ? generateSecret() : undefined
+  const chains = fromAptos
+    ? {
+        sourceChainId: 420, // Aptos - using a placeholder ID
+        targetChainId: config.etherlinkChainId,
+        sourceToken: "0x0000000000000000000000000000000000000000", // placeholder for Aptos
+        targetToken: config.unrealTokenAddress,
+        receiver: wallet.address, // The maker is paid on Etherlink
+      }
+    : {
+        sourceChainId: config.etherlinkChainId,
+        targetChainId: 420, // Aptos - using a placeholder ID
+        sourceToken: config.unrealTokenAddress,
+        targetToken: "0x0000000000000000000000000000000000000000", // placeholder for Aptos
+        receiver: "0x1", // placeholder Aptos address
+      }
+
   // Create a signed order
   const order = await createSignedOrder(
     wallet,
-    config.etherlinkChainId, // Source chain ID (Etherlink)
-    420, // Target chain ID (Aptos - using a placeholder ID)
-    config.unrealTokenAddress, // Source token (Unreal token)
-    "0x0000000000000000000000000000000000000000", // Target token (placeholder for Aptos)
+    chains.sourceChainId,
+    chains.targetChainId,
+    chains.sourceToken,
+    chains.targetToken,
     "1.0", // Amount: 1 UNREAL
     "0.95", // Min return: 0.95 UNREAL (5% slippage)
-    "0x0000000000000000000000000000000000000001", // Receiver (placeholder Aptos address)
+    chains.receiver,
     Math.floor(Date.now() / 1000) + 3600, // Deadline: 1 hour from now
-    "0.01", // Start price: 0.01 ETH
-    "0.005", // End price: 0.005 ETH
-    600 // Duration: 10 minutes
+    formatEther(startPrice), // Start price: 0.01 ETH
+    formatEther(endPrice), // End price: 0.005 ETH
+    duration, // Duration: 10 minutes
+    makerSecret?.hashlocks.Etherlink,
+    auction
   )
 
-  // Save order to file
-  const ordersData = {
-    orders: [order],
+  if (outputFile) {
+    fs.writeFileSync(outputFile, JSON.stringify({ orders: [order] }, null, 2))
+    console.log(`Test order saved to ${outputFile}`)
   }
 
-  fs.writeFileSync(outputFile, JSON.stringify(ordersData, null, 2))
-  console.log(`Test order saved to ${outputFile}`)
+  // The book checks the signature, deadline and addresses before accepting it
+  await submitOrder(orderBookUrl, order)
+  console.log(`Test order submitted to ${orderBookUrl}`)
   console.log(`Order details:`, JSON.stringify(order, null, 2))
+
+  if (makerSecret) {
+    console.log(`Maker secret: ${makerSecret.secret}`)
+    console.log(
+      `IMPORTANT: Keep the secret safe. Lock on Aptos for the solver, then claim its Etherlink lock with:`
+    )
+    console.log(
+      `npm run fusion-cross-chain -- claim <private_key> <etherlink_swap_id> ${makerSecret.secret}`
+    )
+  }
+}
+
+/**
+ * Claim a solver's Etherlink lock as the order's receiver, revealing the secret
+ * @param wallet Etherlink client of the receiver
+ * @param swapId ID of the solver's Etherlink lock
+ * @param secret The maker's secret
+ */
+async function claimEtherlinkLock(
+  wallet: EtherlinkClient,
+  swapId: Hex,
+  secret: Hex
+): Promise<void> {
+  const lock = await wallet.getSwap(swapId)
+  assertClaimable("Etherlink", secret, lock.secretHash)
+  const receipt = await wallet.withdraw(swapId, secret)
+  console.log(`Claimed Etherlink lock ${swapId}: ${receipt.transactionHash}`)
+}
+
+/**
+ * Print the solver's decision log
+ * @param key Order to print the decisions for, or all orders
+ * @param limit Number of latest decisions to print
+ */
+function printDecisions(key?: string, limit?: number): void {
+  const decisions = getSwapStore().getDecisions(key, limit)
+  if (decisions.length === 0) {
+    console.log(`No solver decisions recorded`)
+    return
+  }
+  for (const decision of decisions) {
+    console.log(
+      `${new Date(decision.at).toISOString()} ${decision.orderKey} ${decision.action}: ${decision.reason}`
+    )
+    console.log(`  block timestamp ${decision.blockTimestamp}`, decision.details)
+  }
+}
+
+/**
+ * Print the solver's free and locked UnrealToken on both chains
+ * @param solverWallet Solver's wallet
+ */
+async function printInventory(solverWallet: EtherlinkClient): Promise<void> {
+  const solverInventory = await getInventory(solverWallet)
+  const chains = await solverInventory.report()
+  for (const chain of ["Etherlink", "Aptos"] as const) {
+    const balances = chains[chain]
+    const format = (amount?: bigint) =>
+      amount === undefined
+        ? "unlimited"
+        : `${formatAmount(fromRaw(amount, solverInventory.decimals[chain]))} UNREAL`
+    console.log(`${chain}:`)
+    console.log(`  free:     ${format(balances.free)}`)
+    console.log(`  locked:   ${format(balances.locked)} in open HTLC locks`)
+    console.log(`  reserved: ${format(balances.reserved)}`)
+    if (chain === "Etherlink") {
+      const { maxOrder, maxTotal } = solverInventory.limits
+      console.log(
+        `  caps:     ${format(maxOrder)} per order, ${format(maxTotal)} in total`
+      )
+    }
+  }
 }
 
 // Command line interface
 async function main(): Promise<void> {
-  const args = process.argv.slice(2)
+  const flags = [EPHEMERAL_FLAG, STANDING_APPROVAL_FLAG, APTOS_TO_ETHERLINK_FLAG]
+  const args = process.argv
+    .slice(2)
+    .filter((arg) => !flags.includes(arg) && !arg.startsWith(CURVE_OPTION))
+  const standing = process.argv.includes(STANDING_APPROVAL_FLAG)
+  const fromAptos = process.argv.includes(APTOS_TO_ETHERLINK_FLAG)
+  const curveArg = process.argv.find((arg) => arg.startsWith(CURVE_OPTION))
+  const curve = (curveArg?.slice(CURVE_OPTION.length) ?? "linear") as AuctionCurveKind
   const command = args[0]
 
+  if (command) {
+    printConfig()
+  }
+
   if (command === "create-order") {
     // Check if we have required args
-    if (args.length < 3) {
+    if (args.length < 2) {
       console.log(
-        "Usage: npm run fusion-cross-chain create-order <private_key> <output_file>"
+        `Usage: npm run fusion-cross-chain create-order <private_key> [output_file] [${APTOS_TO_ETHERLINK_FLAG}] [${CURVE_OPTION}<curve>]`
       )
       process.exit(1)
     }
+    if (!AUCTION_CURVES.includes(curve)) {
+      console.log(`Auction curve must be one of ${AUCTION_CURVES.join(", ")}, got ${curve}`)
+      process.exit(1)
+    }
 
     const privateKey = args[1]
     const outputFile = args[2]
-    const wallet = new ethers.Wallet(privateKey, etherlinkProvider)
-
-    await generateTestOrder(wallet, outputFile)
+    const wallet = getEtherlinkClient(etherlinkAccountFromKey(privateKey))
+
+    await generateTestOrder(
+      wallet,
+      config.orderBookUrl,
+      outputFile,
+      fromAptos,
+      curve
+    )
   } else if (command === "start-solver") {
     // Check if we have required args
-    if (args.length < 3) {
+    if (args.length < 2) {
       console.log(
-        "Usage: npm run fusion-cross-chain start-solver <private_key> <orders_file>"
+        `Usage: npm run fusion-cross-chain start-solver <private_key> [source_chain_id] [target_chain_id] [${STANDING_APPROVAL_FLAG}]`
       )
       process.exit(1)
     }
 
     const privateKey = args[1]
-    const ordersFile = args[2]
-    const wallet = new ethers.Wallet(privateKey, etherlinkProvider)
+    const filter: OrderFilter = {
+      sourceChainId: args[2] ? Number(args[2]) : undefined,
+      targetChainId: args[3] ? Number(args[3]) : undefined,
+    }
+    if (Object.values(filter).some((id) => id !== undefined && !Number.isSafeInteger(id))) {
+      console.log(`Chain IDs must be integers, got ${args.slice(2).join(" ")}`)
+      process.exit(1)
+    }
+    const wallet = getEtherlinkClient(etherlinkAccountFromKey(privateKey))
+    // The solver withdraws makers' Aptos locks, so refuse to start without a signer
+    getAptosSigner()
+
+    await startSolverMonitor(wallet, config.orderBookUrl, filter, { standing })
+  } else if (command === "claim") {
+    // Check if we have required args
+    if (args.length < 4) {
+      console.log(
+        "Usage: npm run fusion-cross-chain claim <private_key> <etherlink_swap_id> <secret>"
+      )
+      process.exit(1)
+    }
+
+    const wallet = getEtherlinkClient(etherlinkAccountFromKey(args[1]))
+    await claimEtherlinkLock(wallet, args[2] as Hex, args[3] as Hex)
+  } else if (command === "inventory") {
+    // Check if we have required args
+    if (args.length < 2) {
+      console.log("Usage: npm run fusion-cross-chain inventory <private_key>")
+      process.exit(1)
+    }
 
-    await startSolverMonitor(wallet, ordersFile)
+    const wallet = getEtherlinkClient(etherlinkAccountFromKey(args[1]))
+    await printInventory(wallet)
+  } else if (command === "decisions") {
+    const limit = args[2] ? Number(args[2]) : undefined
+    if (limit !== undefined && !Number.isSafeInteger(limit)) {
+      console.log(
+        "Usage: npm run fusion-cross-chain decisions [order_key] [limit]"
+      )
+      process.exit(1)
+    }
+    printDecisions(args[1] || undefined, limit)
   } else {
     console.log(`
 Unreal Cross-Chain Fusion CLI
 
 Available commands:
-  create-order <private_key> <output_file> - Create and sign a test order
-  start-solver <private_key> <orders_file> - Start a solver to execute orders
+  create-order <private_key> [output_file] [--aptos-to-etherlink] [--curve=linear|piecewise|exponential]
+                                           - Sign a test order and submit it to the order book
+  start-solver <private_key> [source_chain_id] [target_chain_id] [--standing-approval]
+                                           - Start a solver executing orders from the order book
+  claim <private_key> <etherlink_swap_id> <secret>
+                                           - Claim a solver's Etherlink lock as the order's receiver
+  decisions [order_key] [limit]            - Print the solver's latest fill decisions
+  inventory <private_key>                  - Show the solver's free and locked UNREAL on both chains
 `)
   }
 }
@@ -631,11 +1166,11 @@ if (require.main === module) {
   main()
 }
 
+export type { OffchainOrder }
+
 export {
-  OffchainOrder,
   createSignedOrder,
   verifyOrderSignature,
-  calculateCurrentPrice,
   executeOrderAsSolver,
   startSolverMonitor,
 }
@@ -0,0 +1,448 @@
+import { AptosClient } from "aptos"
+import * as fs from "fs"
+import * as path from "path"
+import { Address } from "viem"
+import { config } from "../config"
+import { tokenAbi } from "./lib/abi"
+import { restoreEventCursors, SavedEventCursors } from "./lib/aptos_events"
+import { getEtherlinkPublicClient } from "./lib/etherlink"
+import { errorMessage } from "./lib/errors"
+import { ChainName, secretFromPreimage } from "./lib/hashlock"
+import {
+  ChainDecimals,
+  formatAmount,
+  fromRaw,
+  loadUnrealDecimals,
+  parseChainAmount,
+  toChainAmount,
+} from "./lib/amount"
+import {
+  getSwapStore,
+  NewSwap,
+  SwapLeg,
+  SwapStore,
+} from "./lib/swap_store"
+import { SwapStatus } from "./lib/swap_state"
+
+// Relayer state written by earlier versions of the relayer
+const RELAYER_STATE_FILE = path.join(__dirname, "relayer_state.json")
+
+// Suffix given to files once their contents are in the store
+const IMPORTED_SUFFIX = ".imported"
+
+// Swap kept under `pendingSwaps` in the relayer state
+interface LegacyPendingSwap {
+  // Missing on swaps early relayers could not identify
+  id?: string
+  sourceChain: ChainName
+  destinationChain: ChainName
+  secretHash: string
+  amount: string
+  sender: string
+  recipient: string
+  // Milliseconds since the epoch
+  timestamp?: number
+}
+
+// `relayer_state.json` as earlier relayers wrote it
+interface LegacyRelayerState {
+  lastEtherlinkBlock?: number
+  aptosEventCursors?: SavedEventCursors
+  pendingSwaps?: Record<string, unknown>
+  // Preimage of each hashlock, hex encoded
+  revealedPreimages?: Record<string, unknown>
+}
+
+// Swap file written by the bridge CLI or the solver
+interface LegacySwapFile {
+  swapId?: string
+  aptosLockId?: string
+  sourceChain: ChainName
+  targetChain: ChainName
+  secret?: string
+  // Source hashlock, named `hash` by the bridge CLI and `secretHash` by the solver
+  hash?: string
+  secretHash?: string
+  hashlocks?: Partial<Record<ChainName, string>>
+  // Human readable from the bridge CLI, Etherlink base units from the solver
+  amount: string
+  sender?: string
+  receiver: string
+  status?: string
+  // Milliseconds since the epoch
+  timestamp?: number
+  // Hours
+  timelock?: number
+  endtime?: number
+  deadline?: number
+  // Set by the solver only
+  maker?: string
+  aptosTransactionHash?: string
+  etherlinkTransactionHash?: string
+  refundTransactionHash?: string
+  // Anything else is kept as metadata
+  [field: string]: unknown
+}
+
+// Type a field read from a legacy file must have
+type FieldKind = "string" | "number" | "chain" | "object"
+
+/**
+ * Check the fields read from a legacy JSON record have the types they are used as
+ * @param value Parsed JSON value
+ * @param fields Kind of each field, with a `?` suffix when it may be absent
+ * @param origin Description of the record, for errors
+ * @throws Error naming the first field that is missing or mistyped
+ */
+function checkFields<T>(
+  value: unknown,
+  fields: Record<string, FieldKind>,
+  origin: string
+): asserts value is T {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error(`${origin} is not a JSON object`)
+  }
+  const record = value as Record<string, unknown>
+  for (const [key, kind] of Object.entries(fields)) {
+    const optional = key.endsWith("?")
+    const name = optional ? key.slice(0, -1) : key
+    const field = record[name]
+    if (field === undefined || field === null) {
+      if (optional) continue
+      throw new Error(`${origin} has no ${name}`)
+    }
+    const valid =
+      kind === "chain"
+        ? field === "Aptos" || field === "Etherlink"
+        : kind === "object"
+          ? typeof field === "object" && !Array.isArray(field)
+          : typeof field === kind
+    if (!valid) {
+      throw new Error(
+        `${origin} has an invalid ${name}, expected a ${kind}: ${JSON.stringify(field)}`
+      )
+    }
+  }
+}
+
+// Lifecycle status of each status string the JSON files used
+const LEGACY_STATUSES: Record<string, SwapStatus> = {
+  initiated: "source_locked",
+  completed: "destination_claimed",
+  refunded: "refunded",
+}
+
+/**
+ * Find the JSON files earlier versions wrote
+ *
+ * The bridge CLI wrote swap files next to its script, the solver into the
+ * working directory.
+ * @returns Paths of the relayer state file and every swap file
+ */
+function findLegacyFiles(): { relayerState?: string; swapFiles: string[] } {
+  const directories = [...new Set([__dirname, process.cwd()])]
+  const swapFiles = directories.flatMap((directory) =>
+    fs
+      .readdirSync(directory)
+      .filter((file) => /^swap_.*\.json$/.test(file))
+      .map((file) => path.join(directory, file))
+  )
+  return {
+    relayerState: fs.existsSync(RELAYER_STATE_FILE)
+      ? RELAYER_STATE_FILE
+      : undefined,
+    swapFiles,
+  }
+}
+
+/**
+ * Import cursors, pending swaps and revealed preimages from relayer state
+ * @returns Number of swaps inserted
+ */
+function importRelayerState(store: SwapStore, file: string): number {
+  const state: unknown = JSON.parse(fs.readFileSync(file, "utf8"))
+  checkFields<LegacyRelayerState>(
+    state,
+    {
+      "lastEtherlinkBlock?": "number",
+      "aptosEventCursors?": "object",
+      "pendingSwaps?": "object",
+      "revealedPreimages?": "object",
+    },
+    file
+  )
+  let inserted = 0
+
+  if (
+    state.lastEtherlinkBlock &&
+    store.getCursor("etherlink.block") === undefined
+  ) {
+    store.setCursor("etherlink.block", state.lastEtherlinkBlock)
+  }
+  if (
+    state.aptosEventCursors &&
+    store.getCursor("aptos.events") === undefined
+  ) {
+    store.setCursor("aptos.events", restoreEventCursors(state.aptosEventCursors))
+  }
+
+  for (const [key, swap] of Object.entries(state.pendingSwaps ?? {})) {
+    try {
+      checkFields<LegacyPendingSwap>(
+        swap,
+        {
+          "id?": "string",
+          sourceChain: "chain",
+          destinationChain: "chain",
+          secretHash: "string",
+          amount: "string",
+          sender: "string",
+          recipient: "string",
+          "timestamp?": "number",
+        },
+        `Pending swap ${key}`
+      )
+    } catch (error) {
+      console.warn(`Skipping ${errorMessage(error)}`)
+      continue
+    }
+    // Early relayers keyed swaps they could not identify by "undefined"
+    if (!swap.id) {
+      console.warn(`Skipping pending swap ${key} without an ID`)
+      continue
+    }
+    const added = store.insertSwap(
+      {
+        id: swap.id,
+        sourceChain: swap.sourceChain,
+        targetChain: swap.destinationChain,
+        status: "source_locked",
+        secretHash: swap.secretHash,
+        amount: swap.amount,
+        sender: swap.sender,
+        receiver: swap.recipient,
+        legs: [
+          {
+            chain: swap.sourceChain,
+            lockId: swap.id,
+            sender: swap.sender,
+            hashlock: swap.secretHash,
+          },
+        ],
+        metadata: { importedFrom: path.basename(file) },
+        createdAt: swap.timestamp,
+      },
+      `imported from ${path.basename(file)}`
+    )
+    inserted += added ? 1 : 0
+  }
+
+  const secrets = new Set(Object.values(state.revealedPreimages ?? {}))
+  for (const preimage of secrets) {
+    if (typeof preimage !== "string") {
+      console.warn(`Skipping revealed preimage ${JSON.stringify(preimage)} of ${file}`)
+      continue
+    }
+    const { secret, hashlocks } = secretFromPreimage(preimage)
+    store.recordPreimage(
+      secret,
+      [hashlocks.Etherlink, hashlocks.Aptos],
+      path.basename(file)
+    )
+  }
+
+  return inserted
+}
+
+/**
+ * Convert a swap file written by the bridge CLI or the solver
+ * @param file Path of the swap file
+ * @param decimals UnrealToken decimals, to store amounts in base units per leg
+ */
+function swapFromFile(file: string, decimals: ChainDecimals): NewSwap {
+  const details: unknown = JSON.parse(fs.readFileSync(file, "utf8"))
+  checkFields<LegacySwapFile>(
+    details,
+    {
+      "swapId?": "string",
+      "aptosLockId?": "string",
+      sourceChain: "chain",
+      targetChain: "chain",
+      "secret?": "string",
+      "hash?": "string",
+      "secretHash?": "string",
+      "hashlocks?": "object",
+      amount: "string",
+      "sender?": "string",
+      receiver: "string",
+      "status?": "string",
+      "timestamp?": "number",
+      "timelock?": "number",
+      "endtime?": "number",
+      "deadline?": "number",
+      "maker?": "string",
+      "aptosTransactionHash?": "string",
+      "etherlinkTransactionHash?": "string",
+      "refundTransactionHash?": "string",
+    },
+    file
+  )
+  const { sourceChain, targetChain } = details
+  const hashlocks = details.hashlocks ?? {}
+  const secretHash =
+    details.hash || details.secretHash || hashlocks[sourceChain]
+  if (!secretHash) {
+    throw new Error(`${file} records no hashlock`)
+  }
+
+  // The solver recorded base units on Etherlink, the bridge CLI human readable amounts
+  const sourceAmount = details.maker
+    ? fromRaw(details.amount, decimals.Etherlink)
+    : parseChainAmount(details.amount, sourceChain, decimals)
+
+  // Older swap files only recorded the timelock in hours
+  const endtime =
+    details.endtime ??
+    details.deadline ??
+    (details.timestamp && details.timelock
+      ? Math.floor(details.timestamp / 1000) + details.timelock * 60 * 60
+      : undefined)
+
+  const legs: Record<ChainName, SwapLeg> = {
+    Aptos: {
+      chain: "Aptos",
+      lockId:
+        details.aptosLockId ??
+        (sourceChain === "Aptos" ? details.swapId : undefined),
+      hashlock: hashlocks.Aptos,
+    },
+    Etherlink: {
+      chain: "Etherlink",
+      lockId: sourceChain === "Etherlink" ? details.swapId : undefined,
+      hashlock: hashlocks.Etherlink,
+    },
+  }
+  Object.assign(legs[sourceChain], {
+    sender: details.sender,
+    amount: toChainAmount(sourceAmount, sourceChain, decimals).raw.toString(),
+    hashlock: hashlocks[sourceChain] ?? secretHash,
+    endtime,
+    refundTx: details.refundTransactionHash,
+  })
+  Object.assign(legs[targetChain], {
+    recipient: details.receiver,
+    amount: toChainAmount(sourceAmount, targetChain, decimals).raw.toString(),
+  })
+
+  // Each transaction hash opened the source lock or paid out the target leg
+  const chainTxs: [ChainName, string | undefined][] = [
+    ["Aptos", details.aptosTransactionHash],
+    ["Etherlink", details.etherlinkTransactionHash],
+  ]
+  for (const [chain, txHash] of chainTxs) {
+    if (txHash) {
+      legs[chain][chain === sourceChain ? "initTx" : "claimTx"] = txHash
+    }
+  }
+
+  const {
+    swapId,
+    aptosLockId,
+    secret,
+    hash,
+    hashlocks: _hashlocks,
+    amount,
+    sender,
+    receiver,
+    status,
+    timestamp,
+    endtime: _endtime,
+    aptosTransactionHash,
+    etherlinkTransactionHash,
+    refundTransactionHash,
+    ...rest
+  } = details
+
+  return {
+    id: swapId || path.basename(file, ".json").replace(/^swap_/, ""),
+    sourceChain,
+    targetChain,
+    status: (status && LEGACY_STATUSES[status]) || "source_locked",
+    secretHash,
+    secret,
+    amount: formatAmount(sourceAmount),
+    sender: sender || "",
+    receiver,
+    legs: Object.values(legs),
+    metadata: { ...rest, importedFrom: path.basename(file) },
+    createdAt: timestamp ?? Math.floor(fs.statSync(file).mtimeMs),
+  }
+}
+
+/**
+ * Move the relayer state and swap files of earlier versions into the swap store
+ *
+ * Each file is renamed with an `.imported` suffix once its contents are
+ * committed, so running the import again does nothing. Swaps already in the
+ * store are left untouched.
+ */
+async function importSwaps(): Promise<void> {
+  const store = getSwapStore()
+  const { relayerState, swapFiles } = findLegacyFiles()
+
+  if (!relayerState && swapFiles.length === 0) {
+    console.log("No relayer state or swap files to import")
+    return
+  }
+
+  console.log(`Importing into swap store ${store.file}`)
+
+  if (relayerState) {
+    const inserted = store.transaction(() =>
+      importRelayerState(store, relayerState)
+    )
+    fs.renameSync(relayerState, relayerState + IMPORTED_SUFFIX)
+    console.log(`Imported ${relayerState}: ${inserted} pending swap(s)`)
+  }
+
+  if (swapFiles.length === 0) {
+    return
+  }
+
+  const aptosClient = new AptosClient(config.aptosNodeUrl)
+  const decimals = await loadUnrealDecimals(aptosClient, () =>
+    getEtherlinkPublicClient().readContract({
+      address: config.unrealTokenAddress as Address,
+      abi: tokenAbi,
+      functionName: "decimals",
+    })
+  )
+
+  for (const file of swapFiles) {
+    try {
+      const swap = swapFromFile(file, decimals)
+      const inserted = store.insertSwap(
+        swap,
+        `imported from ${path.basename(file)}`
+      )
+      fs.renameSync(file, file + IMPORTED_SUFFIX)
+      console.log(
+        inserted
+          ? `Imported ${file} as swap ${swap.id} (${swap.status})`
+          : `Swap ${swap.id} from ${file} is already in the store`
+      )
+    } catch (error) {
+      console.error(`Error importing ${file}:`, error)
+    }
+  }
+}
+
+// Run the import if executed directly
+if (require.main === module) {
+  importSwaps().catch((error) => {
+    console.error("Error importing swaps:", error)
+    process.exit(1)
+  })
+}
+
+export { importSwaps }
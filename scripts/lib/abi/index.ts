@@ -0,0 +1,37 @@
+import { Abi } from "viem"
+import * as fs from "fs"
+import * as path from "path"
+import { config } from "../../../config"
+import { unrealHtlcAbi } from "./unreal_htlc"
+import { unrealTokenAbi } from "./unreal_token"
+
+export { unrealHtlcAbi } from "./unreal_htlc"
+export { unrealTokenAbi } from "./unreal_token"
+
+/**
+ * Use the ABI from a JSON file in place of a bundled one
+ *
+ * The file may be a Hardhat/Foundry artifact with an `abi` field or a bare ABI array.
+ * The bundled ABI keeps providing the static types, so the override must stay
+ * compatible with it (e.g. a redeployment that only adds entries).
+ * @param bundled ABI shipped with the scripts
+ * @param overridePath Path of the replacement, relative to the working directory; empty to keep the bundled ABI
+ * @throws Error if the file cannot be read or holds no ABI array
+ */
+export function loadAbi<T extends Abi>(bundled: T, overridePath: string): T {
+  if (!overridePath) {
+    return bundled
+  }
+
+  const file = path.resolve(overridePath)
+  const json = JSON.parse(fs.readFileSync(file, "utf8"))
+  const abi = Array.isArray(json) ? json : json.abi
+  if (!Array.isArray(abi)) {
+    throw new Error(`No ABI array found in ${file}`)
+  }
+  return abi as unknown as T
+}
+
+// ABIs of the Etherlink contracts, honouring the override paths in config
+export const htlcAbi = loadAbi(unrealHtlcAbi, config.etherlinkHtlcAbiPath)
+export const tokenAbi = loadAbi(unrealTokenAbi, config.unrealTokenAbiPath)
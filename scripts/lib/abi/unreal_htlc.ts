@@ -0,0 +1,131 @@
+// ABI of UnrealHTLC.sol deployed on Etherlink
+export const unrealHtlcAbi = [
+  {
+    type: "function",
+    name: "initiateSwap",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "secretHash", type: "bytes32" },
+      { name: "recipient", type: "address" },
+      { name: "amount", type: "uint256" },
+      { name: "timelock", type: "uint256" },
+      { name: "targetChain", type: "string" },
+      { name: "targetAddress", type: "string" },
+    ],
+    outputs: [{ name: "swapId", type: "bytes32" }],
+  },
+  {
+    type: "function",
+    name: "withdraw",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "swapId", type: "bytes32" },
+      { name: "secret", type: "bytes32" },
+    ],
+    outputs: [],
+  },
+  {
+    type: "function",
+    name: "refund",
+    stateMutability: "nonpayable",
+    inputs: [{ name: "swapId", type: "bytes32" }],
+    outputs: [],
+  },
+  {
+    type: "function",
+    name: "completeSwap",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "sourceChain", type: "string" },
+      { name: "sourceAddress", type: "string" },
+      { name: "recipient", type: "address" },
+      { name: "amount", type: "uint256" },
+      { name: "secret", type: "bytes32" },
+    ],
+    outputs: [],
+  },
+  {
+    type: "function",
+    name: "getSwap",
+    stateMutability: "view",
+    inputs: [{ name: "swapId", type: "bytes32" }],
+    outputs: [
+      {
+        name: "",
+        type: "tuple",
+        components: [
+          { name: "sender", type: "address" },
+          { name: "recipient", type: "address" },
+          { name: "amount", type: "uint256" },
+          { name: "secretHash", type: "bytes32" },
+          { name: "timelock", type: "uint256" },
+          { name: "withdrawn", type: "bool" },
+          { name: "refunded", type: "bool" },
+          { name: "secret", type: "bytes32" },
+          { name: "targetChain", type: "string" },
+          { name: "targetAddress", type: "string" },
+        ],
+      },
+    ],
+  },
+  {
+    type: "function",
+    name: "isRelayer",
+    stateMutability: "view",
+    inputs: [{ name: "account", type: "address" }],
+    outputs: [{ name: "", type: "bool" }],
+  },
+  {
+    type: "function",
+    name: "token",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "address" }],
+  },
+  {
+    type: "event",
+    name: "SwapInitiated",
+    anonymous: false,
+    inputs: [
+      { name: "swapId", type: "bytes32", indexed: true },
+      { name: "sender", type: "address", indexed: true },
+      { name: "recipient", type: "address", indexed: true },
+      { name: "amount", type: "uint256", indexed: false },
+      { name: "secretHash", type: "bytes32", indexed: false },
+      { name: "timelock", type: "uint256", indexed: false },
+      { name: "targetChain", type: "string", indexed: false },
+      { name: "targetAddress", type: "string", indexed: false },
+    ],
+  },
+  {
+    type: "event",
+    name: "SwapWithdrawn",
+    anonymous: false,
+    inputs: [
+      { name: "swapId", type: "bytes32", indexed: true },
+      { name: "recipient", type: "address", indexed: true },
+      { name: "secret", type: "bytes32", indexed: false },
+    ],
+  },
+  {
+    type: "event",
+    name: "SwapRefunded",
+    anonymous: false,
+    inputs: [
+      { name: "swapId", type: "bytes32", indexed: true },
+      { name: "sender", type: "address", indexed: true },
+    ],
+  },
+  {
+    type: "event",
+    name: "SwapCompleted",
+    anonymous: false,
+    inputs: [
+      { name: "sourceChain", type: "string", indexed: false },
+      { name: "sourceAddress", type: "string", indexed: false },
+      { name: "recipient", type: "address", indexed: true },
+      { name: "amount", type: "uint256", indexed: false },
+      { name: "secret", type: "bytes32", indexed: false },
+    ],
+  },
+] as const
@@ -0,0 +1,96 @@
+import { Address, getAddress, isAddress } from "viem"
+import { ChainName } from "./hashlock"
+
+// Kind of address each chain uses
+export type AddressKind = "aptos" | "evm"
+
+export const CHAIN_ADDRESS_KINDS: Record<ChainName, AddressKind> = {
+  Aptos: "aptos",
+  Etherlink: "evm",
+}
+
+const EVM_ADDRESS = /^0x[0-9a-fA-F]{40}$/
+// AIP-40 long form; special addresses 0x0 to 0xf may also be written short
+const APTOS_LONG_ADDRESS = /^0x[0-9a-fA-F]{64}$/
+const APTOS_SPECIAL_ADDRESS = /^0x0*[0-9a-fA-F]$/
+
+/**
+ * Tell which kind of address a string holds
+ *
+ * A 20-byte hex string is taken as an EVM address even though it would also
+ * parse as a relaxed short Aptos address, since AIP-40 requires the long form
+ * for everything but the special addresses.
+ * @returns The kind, or undefined for neither
+ */
+export function addressKind(value: string): AddressKind | undefined {
+  if (EVM_ADDRESS.test(value)) {
+    return "evm"
+  }
+  if (APTOS_LONG_ADDRESS.test(value) || APTOS_SPECIAL_ADDRESS.test(value)) {
+    return "aptos"
+  }
+  return undefined
+}
+
+/**
+ * Normalize an Aptos address to its AIP-40 form
+ *
+ * Special addresses (0x0 to 0xf) become short, e.g. `0x1`; every other
+ * address becomes the lowercase 64-digit long form.
+ * @param value Long form, or short form of a special address
+ * @throws Error for anything else, including EVM addresses
+ */
+export function normalizeAptosAddress(value: string): string {
+  if (addressKind(value) !== "aptos") {
+    throw new Error(
+      `Not an AIP-40 Aptos address (0x followed by 64 hex digits): ${value}`
+    )
+  }
+  const digits = value.slice(2).toLowerCase().replace(/^0+/, "") || "0"
+  return digits.length === 1 ? `0x${digits}` : `0x${digits.padStart(64, "0")}`
+}
+
+/**
+ * Normalize an EVM address to its EIP-55 checksum form
+ * @param value All-lowercase, all-uppercase or correctly checksummed address
+ * @throws Error for a mixed-case address with a wrong checksum, or anything else
+ */
+export function normalizeEvmAddress(value: string): Address {
+  if (!EVM_ADDRESS.test(value)) {
+    throw new Error(`Not an EVM address (0x followed by 40 hex digits): ${value}`)
+  }
+  if (!isAddress(value, { strict: true })) {
+    throw new Error(`EVM address has an invalid EIP-55 checksum: ${value}`)
+  }
+  return getAddress(value)
+}
+
+/**
+ * Validate and normalize an address for a chain
+ * @param chain Chain the address belongs to
+ * @param value Address as entered
+ * @param role What the address is used for, named in error messages
+ * @throws Error if the address is malformed or of the other chain's kind
+ */
+export function parseChainAddress(
+  chain: ChainName,
+  value: string,
+  role: string
+): string {
+  const expected = CHAIN_ADDRESS_KINDS[chain]
+  const actual = addressKind(value)
+  if (actual && actual !== expected) {
+    throw new Error(
+      `${role} must be an ${chain} address, got an ${actual === "evm" ? "EVM" : "Aptos"} address: ${value}`
+    )
+  }
+  try {
+    return expected === "aptos"
+      ? normalizeAptosAddress(value)
+      : normalizeEvmAddress(value)
+  } catch (error) {
+    throw new Error(
+      `Invalid ${role}: ${error instanceof Error ? error.message : error}`
+    )
+  }
+}
@@ -0,0 +1,65 @@
+import { Address, maxUint256 } from "viem"
+import { EtherlinkClient } from "./etherlink"
+import { formatAmount, fromRaw } from "./amount"
+
+// CLI flag that grants the HTLC an unlimited allowance instead of one per swap
+export const STANDING_APPROVAL_FLAG = "--standing-approval"
+
+// How the spender got its allowance
+export type AllowanceSource = "existing" | "approve"
+
+export interface AllowanceOptions {
+  // Grant an unlimited allowance, so later swaps need no approval
+  standing?: boolean
+}
+
+/**
+ * Make sure a spender may move an amount of this account's UnrealToken
+ *
+ * The balance is checked before any transaction is sent. An allowance that
+ * already covers the amount is reused; otherwise it is granted by `approve`.
+ * @param client Etherlink client of the token owner
+ * @param spender Contract that will transfer the tokens, e.g. the HTLC
+ * @param amount Amount in base units
+ * @param options Whether to grant a standing allowance
+ * @returns How the allowance was obtained
+ * @throws Error if the balance cannot cover the amount
+ */
+export async function ensureAllowance(
+  client: EtherlinkClient,
+  spender: Address,
+  amount: bigint,
+  options: AllowanceOptions = {}
+): Promise<AllowanceSource> {
+  const [balance, allowance, decimals] = await Promise.all([
+    client.balanceOf(),
+    client.allowance(spender),
+    client.decimals(),
+  ])
+
+  if (balance < amount) {
+    throw new Error(
+      `Insufficient UnrealToken balance for ${client.address}: ` +
+        `${formatAmount(fromRaw(balance, decimals))} available, ` +
+        `${formatAmount(fromRaw(amount, decimals))} needed`
+    )
+  }
+
+  if (allowance >= amount) {
+    console.log(
+      `Allowance of ${spender} already covers ${formatAmount(fromRaw(amount, decimals))} UNREAL`
+    )
+    return "existing"
+  }
+
+  const value = options.standing ? maxUint256 : amount
+  const description = options.standing
+    ? "an unlimited allowance"
+    : `an allowance of ${formatAmount(fromRaw(amount, decimals))} UNREAL`
+
+  const receipt = await client.approve(spender, value)
+  console.log(
+    `Approved ${spender} for ${description}: ${receipt.transactionHash}`
+  )
+  return "approve"
+}
@@ -0,0 +1,169 @@
+import { AptosClient } from "aptos"
+import { config } from "../../config"
+import { ChainName } from "./hashlock"
+
+// Largest value a Move u64 can hold
+export const U64_MAX = (1n << 64n) - 1n
+
+// An UnrealToken amount in base units for a given number of decimals
+export interface TokenAmount {
+  raw: bigint
+  decimals: number
+}
+
+// UnrealToken decimals on each chain
+export type ChainDecimals = Record<ChainName, number>
+
+/**
+ * Coin type of UnrealToken on Aptos
+ */
+export function unrealCoinType(): string {
+  return `${config.aptosModuleAddress}::unreal_token::UnrealToken`
+}
+
+/**
+ * Wrap a base-unit amount
+ * @param raw Amount in base units
+ * @param decimals Decimals of the token the amount is denominated in
+ */
+export function fromRaw(
+  raw: bigint | number | string,
+  decimals: number
+): TokenAmount {
+  const value = BigInt(raw)
+  if (value < 0n) {
+    throw new Error(`Amount cannot be negative: ${raw}`)
+  }
+  return { raw: value, decimals }
+}
+
+/**
+ * Parse a decimal string such as "1.25" into base units without floating point
+ * @param value Human readable amount
+ * @param decimals Decimals of the token
+ * @throws Error if the value is malformed or has more fractional digits than the token
+ */
+export function parseAmount(value: string, decimals: number): TokenAmount {
+  const match = /^(\d+)(?:\.(\d*))?$/.exec(value.trim())
+  if (!match) {
+    throw new Error(`Invalid amount: ${value}`)
+  }
+
+  const [, whole, fraction = ""] = match
+  const significant = fraction.replace(/0+$/, "")
+  if (significant.length > decimals) {
+    throw new Error(
+      `Amount ${value} has more than ${decimals} decimal places and would lose precision`
+    )
+  }
+
+  const scaled = whole + significant.padEnd(decimals, "0")
+  return { raw: BigInt(scaled), decimals }
+}
+
+/**
+ * Format an amount as a decimal string with trailing zeros removed
+ */
+export function formatAmount(amount: TokenAmount): string {
+  const digits = amount.raw.toString().padStart(amount.decimals + 1, "0")
+  const whole = digits.slice(0, digits.length - amount.decimals)
+  const fraction = digits
+    .slice(digits.length - amount.decimals)
+    .replace(/0+$/, "")
+  return fraction ? `${whole}.${fraction}` : whole
+}
+
+/**
+ * Express an amount in a different number of decimals
+ * @param amount Amount to convert
+ * @param decimals Target decimals
+ * @throws Error if scaling down would drop non-zero digits
+ */
+export function rescaleAmount(
+  amount: TokenAmount,
+  decimals: number
+): TokenAmount {
+  if (decimals >= amount.decimals) {
+    return {
+      raw: amount.raw * 10n ** BigInt(decimals - amount.decimals),
+      decimals,
+    }
+  }
+
+  const divisor = 10n ** BigInt(amount.decimals - decimals)
+  if (amount.raw % divisor !== 0n) {
+    throw new Error(
+      `Amount ${formatAmount(amount)} cannot be represented with ${decimals} decimals without losing precision`
+    )
+  }
+  return { raw: amount.raw / divisor, decimals }
+}
+
+/**
+ * Base units of an amount as a Move u64
+ * @throws Error if the amount does not fit in a u64
+ */
+export function toU64(amount: TokenAmount): bigint {
+  if (amount.raw > U64_MAX) {
+    throw new Error(`Amount ${formatAmount(amount)} overflows u64`)
+  }
+  return amount.raw
+}
+
+/**
+ * Parse a human readable amount for a chain
+ * @param value Human readable amount
+ * @param chain Chain the amount is denominated on
+ * @param decimals UnrealToken decimals per chain
+ */
+export function parseChainAmount(
+  value: string,
+  chain: ChainName,
+  decimals: ChainDecimals
+): TokenAmount {
+  const amount = parseAmount(value, decimals[chain])
+  if (chain === "Aptos") {
+    toU64(amount)
+  }
+  return amount
+}
+
+/**
+ * Convert an amount to the decimals UnrealToken uses on a chain
+ * @param amount Amount to convert
+ * @param chain Destination chain
+ * @param decimals UnrealToken decimals per chain
+ */
+export function toChainAmount(
+  amount: TokenAmount,
+  chain: ChainName,
+  decimals: ChainDecimals
+): TokenAmount {
+  const converted = rescaleAmount(amount, decimals[chain])
+  if (chain === "Aptos") {
+    toU64(converted)
+  }
+  return converted
+}
+
+/**
+ * Read UnrealToken decimals from both chains
+ * @param aptosClient Aptos REST client, queried via `0x1::coin::decimals`
+ * @param readEtherlinkDecimals Reads the ERC-20 `decimals()` of UnrealToken on Etherlink
+ */
+export async function loadUnrealDecimals(
+  aptosClient: AptosClient,
+  readEtherlinkDecimals: () => Promise<number | bigint>
+): Promise<ChainDecimals> {
+  const [aptosDecimals] = await aptosClient.view({
+    function: "0x1::coin::decimals",
+    type_arguments: [unrealCoinType()],
+    arguments: [],
+  })
+  const etherlinkDecimals = await readEtherlinkDecimals()
+
+  return {
+    Aptos: Number(aptosDecimals),
+    Etherlink: Number(etherlinkDecimals),
+  }
+}
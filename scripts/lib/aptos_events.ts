@@ -0,0 +1,503 @@
+import {
+  AptosClient,
+  ApiError,
+  HexString,
+  IndexerClient,
+  TxnBuilderTypes,
+  Types,
+} from "aptos"
+import { config } from "../../config"
+import {
+  AptosCrossChainCompleted,
+  AptosSwapInitiated,
+  AptosSwapRefunded,
+  AptosSwapWithdrawn,
+} from "./aptos_htlc"
+
+// Event handles on UnrealHTLCState that the relayer follows
+export const HTLC_EVENT_HANDLES = [
+  "swap_initiated_events",
+  "swap_withdrawn_events",
+  "swap_refunded_events",
+  "cross_chain_completed_events",
+] as const
+
+export type HtlcEventHandle = (typeof HTLC_EVENT_HANDLES)[number]
+
+// Event struct emitted through each handle
+const HANDLE_EVENT_STRUCTS: Record<HtlcEventHandle, string> = {
+  swap_initiated_events: "SwapInitiatedEvent",
+  swap_withdrawn_events: "SwapWithdrawnEvent",
+  swap_refunded_events: "SwapRefundedEvent",
+  cross_chain_completed_events: "CrossChainCompletedEvent",
+}
+
+// Ingestion progress shared by every event source
+export interface EventCursors {
+  // Next sequence number to fetch for each event handle
+  sequenceNumbers: Record<HtlcEventHandle, string>
+  // First ledger version that may still hold unprocessed events
+  version: string
+}
+
+// Cursors as persisted; early state files stored the sequence numbers at the top level
+export type SavedEventCursors =
+  | { sequenceNumbers: Partial<Record<HtlcEventHandle, string>>; version?: string }
+  | Partial<Record<HtlcEventHandle, string>>
+
+// Event as returned by the REST API, which also includes the ledger version
+export type HtlcEvent = Omit<Types.Event, "data"> & {
+  data: Record<string, unknown>
+  version?: string
+}
+
+// Data of the events of each handle
+interface HtlcEventData {
+  swap_initiated_events: AptosSwapInitiated
+  swap_withdrawn_events: AptosSwapWithdrawn
+  swap_refunded_events: AptosSwapRefunded
+  cross_chain_completed_events: AptosCrossChainCompleted
+}
+
+// An event's data, told apart by the handle it was read from
+export type ParsedHtlcEvent = {
+  [H in HtlcEventHandle]: { handle: H; data: HtlcEventData[H] }
+}[HtlcEventHandle]
+
+// Fields of each handle's event data; all are strings in the REST encoding
+const HANDLE_EVENT_FIELDS: {
+  [H in HtlcEventHandle]: readonly (keyof HtlcEventData[H])[]
+} = {
+  swap_initiated_events: [
+    "lock_id",
+    "sender",
+    "recipient",
+    "amount",
+    "secret_hash",
+    "target_chain",
+    "target_address",
+  ],
+  swap_withdrawn_events: ["lock_id", "recipient", "amount", "preimage"],
+  swap_refunded_events: ["lock_id", "sender", "amount"],
+  cross_chain_completed_events: [
+    "source_chain",
+    "source_address",
+    "destination",
+    "amount",
+    "preimage",
+  ],
+}
+
+export type HtlcEventCallback = (
+  handle: HtlcEventHandle,
+  event: HtlcEvent
+) => Promise<void> | void
+
+// A backend able to deliver new HTLC events in order
+export interface AptosEventSource {
+  readonly name: string
+  /**
+   * Deliver every event past the cursors to `onEvent`, advancing the cursors in place
+   * @returns Number of events processed
+   */
+  poll(cursors: EventCursors, onEvent: HtlcEventCallback): Promise<number>
+}
+
+export type AptosEventSourceKind = "rest" | "indexer"
+
+// Maximum page size accepted by the fullnode events endpoint
+const EVENT_PAGE_LIMIT = 100
+
+// Page size for indexer queries
+const INDEXER_PAGE_LIMIT = 100
+
+/**
+ * Fully qualified struct tag of the HTLC state resource holding the event handles
+ */
+export function htlcStateStructTag(): string {
+  return `${config.aptosModuleAddress}::${config.aptosModuleName}::UnrealHTLCState`
+}
+
+/**
+ * Check an event's data has the fields of its handle's event struct
+ * @param handle Handle the event was read from
+ * @param event The event
+ * @returns The data, typed by handle
+ * @throws Error if a field is missing or not a string
+ */
+export function parseHtlcEvent(
+  handle: HtlcEventHandle,
+  event: HtlcEvent
+): ParsedHtlcEvent {
+  for (const field of HANDLE_EVENT_FIELDS[handle]) {
+    if (typeof event.data[field] !== "string") {
+      throw new Error(
+        `${HANDLE_EVENT_STRUCTS[handle]} #${event.sequence_number} has no string ${String(field)}`
+      )
+    }
+  }
+  return { handle, data: event.data } as unknown as ParsedHtlcEvent
+}
+
+/**
+ * Create a cursor set starting at the first event of every handle
+ */
+export function initialEventCursors(): EventCursors {
+  const sequenceNumbers = {} as Record<HtlcEventHandle, string>
+  for (const handle of HTLC_EVENT_HANDLES) {
+    sequenceNumbers[handle] = "0"
+  }
+  return { sequenceNumbers, version: "0" }
+}
+
+/**
+ * Merge persisted cursors over the defaults, ignoring unknown handles
+ * @param saved Cursors loaded from relayer state
+ * @returns Complete cursor set
+ */
+export function restoreEventCursors(
+  saved: SavedEventCursors | undefined
+): EventCursors {
+  const cursors = initialEventCursors()
+  if (!saved) {
+    return cursors
+  }
+
+  const sequenceNumbers = "sequenceNumbers" in saved ? saved.sequenceNumbers : saved
+  for (const handle of HTLC_EVENT_HANDLES) {
+    const value = sequenceNumbers[handle]
+    if (value !== undefined) {
+      cursors.sequenceNumbers[handle] = BigInt(value).toString()
+    }
+  }
+  if ("version" in saved && saved.version !== undefined) {
+    cursors.version = BigInt(saved.version).toString()
+  }
+  return cursors
+}
+
+/**
+ * Record that an event has been handled
+ * @param cursors Cursors to update in place
+ * @param handle Handle the event belongs to
+ * @param event The handled event
+ */
+function advanceCursors(
+  cursors: EventCursors,
+  handle: HtlcEventHandle,
+  event: HtlcEvent
+): void {
+  const next = BigInt(event.sequence_number) + 1n
+  if (next > BigInt(cursors.sequenceNumbers[handle])) {
+    cursors.sequenceNumbers[handle] = next.toString()
+  }
+}
+
+/**
+ * Check whether an event has already been handled
+ */
+function isProcessed(
+  cursors: EventCursors,
+  handle: HtlcEventHandle,
+  event: HtlcEvent
+): boolean {
+  return (
+    BigInt(event.sequence_number) < BigInt(cursors.sequenceNumbers[handle])
+  )
+}
+
+/**
+ * Fetch one page of events from an HTLC event handle
+ * @param client Aptos REST client
+ * @param handle Event handle field name on UnrealHTLCState
+ * @param start First sequence number to return
+ * @param limit Maximum number of events
+ * @returns Events in ascending sequence order, empty if the handle has none yet
+ */
+export async function fetchHandleEvents(
+  client: AptosClient,
+  handle: HtlcEventHandle,
+  start: bigint,
+  limit: number = EVENT_PAGE_LIMIT
+): Promise<HtlcEvent[]> {
+  try {
+    const events = await client.getEventsByEventHandle(
+      config.aptosModuleAddress,
+      htlcStateStructTag(),
+      handle,
+      { start, limit }
+    )
+    return events as HtlcEvent[]
+  } catch (error) {
+    // The node answers 404 until the handle has emitted its first event
+    if (error instanceof ApiError && error.status === 404) {
+      return []
+    }
+    throw error
+  }
+}
+
+/**
+ * Event source paging through the UnrealHTLCState event handles on a fullnode
+ *
+ * Each event is passed to `onEvent` in sequence order and the cursor for its
+ * handle is advanced only after the callback resolves, so a failure stops that
+ * handle at the first unprocessed event instead of skipping it.
+ * @param client Aptos REST client
+ */
+export function createRestEventSource(client: AptosClient): AptosEventSource {
+  return {
+    name: "rest",
+    async poll(cursors, onEvent) {
+      let processed = 0
+      let highestVersion: bigint | undefined
+
+      for (const handle of HTLC_EVENT_HANDLES) {
+        while (true) {
+          const start = BigInt(cursors.sequenceNumbers[handle])
+          const page = await fetchHandleEvents(client, handle, start)
+
+          for (const event of page) {
+            // Guard against nodes that ignore `start` and return older events
+            if (isProcessed(cursors, handle, event)) continue
+
+            await onEvent(handle, event)
+            advanceCursors(cursors, handle, event)
+            processed++
+
+            if (event.version !== undefined) {
+              const version = BigInt(event.version)
+              if (highestVersion === undefined || version > highestVersion) {
+                highestVersion = version
+              }
+            }
+          }
+
+          // Stop on a short page, or if a full page did not move the cursor
+          if (page.length < EVENT_PAGE_LIMIT) break
+          if (BigInt(cursors.sequenceNumbers[handle]) === start) break
+        }
+      }
+
+      // Every handle was drained, so the indexer may resume after the newest event seen
+      if (
+        highestVersion !== undefined &&
+        highestVersion + 1n > BigInt(cursors.version)
+      ) {
+        cursors.version = (highestVersion + 1n).toString()
+      }
+
+      return processed
+    },
+  }
+}
+
+// Row shape of the indexer `events` table
+export interface IndexedEventRow {
+  account_address: string
+  creation_number: number
+  sequence_number: number
+  transaction_version: number
+  event_index: number
+  indexed_type: string
+  type: string
+  data: Record<string, unknown>
+}
+
+// Where an indexer page starts: a ledger version, or just past one event of it
+export interface IndexedPosition {
+  version: bigint
+  // Last event index already read at `version`; the whole version is read if omitted
+  eventIndex?: number
+}
+
+const HTLC_EVENTS_QUERY = `
+  query HtlcEvents(
+    $where: events_bool_exp!
+    $limit: Int!
+  ) {
+    events(
+      where: $where
+      order_by: [{ transaction_version: asc }, { event_index: asc }]
+      limit: $limit
+    ) {
+      account_address
+      creation_number
+      sequence_number
+      transaction_version
+      event_index
+      indexed_type
+      type
+      data
+    }
+  }
+`
+
+/**
+ * Map each `indexed_type` of the unreal_htlc event structs to its handle
+ *
+ * Both the short and the zero-padded form of the module address are included,
+ * since the indexer keeps type strings as the node printed them.
+ */
+export function htlcIndexedTypes(): Map<string, HtlcEventHandle> {
+  const addresses = new Set([
+    HexString.ensure(config.aptosModuleAddress).toShortString(),
+    TxnBuilderTypes.AccountAddress.standardizeAddress(
+      config.aptosModuleAddress
+    ),
+  ])
+
+  const types = new Map<string, HtlcEventHandle>()
+  for (const address of addresses) {
+    for (const handle of HTLC_EVENT_HANDLES) {
+      types.set(
+        `${address}::${config.aptosModuleName}::${HANDLE_EVENT_STRUCTS[handle]}`,
+        handle
+      )
+    }
+  }
+  return types
+}
+
+/**
+ * Query one page of unreal_htlc events from the indexer within a version range
+ *
+ * Pages are keyed by the position of the last row read rather than an
+ * offset, so rows indexed while paging neither shift nor repeat a page.
+ * @param indexer Indexer GraphQL client
+ * @param from Position to start at
+ * @param toVersion Last ledger version, inclusive; unbounded if omitted
+ * @param limit Maximum number of rows
+ * @returns Rows ordered by version and event index
+ */
+export async function fetchIndexedEvents(
+  indexer: IndexerClient,
+  from: IndexedPosition,
+  toVersion?: bigint,
+  limit: number = INDEXER_PAGE_LIMIT
+): Promise<IndexedEventRow[]> {
+  const version = from.version.toString()
+  const transactionVersion: Record<string, string> =
+    from.eventIndex === undefined ? { _gte: version } : { _gt: version }
+  if (toVersion !== undefined) {
+    transactionVersion._lte = toVersion.toString()
+  }
+  const position =
+    from.eventIndex === undefined
+      ? { transaction_version: transactionVersion }
+      : {
+          _or: [
+            { transaction_version: transactionVersion },
+            {
+              transaction_version: { _eq: version },
+              event_index: { _gt: from.eventIndex },
+            },
+          ],
+        }
+
+  const result = await indexer.queryIndexer<{ events: IndexedEventRow[] }>({
+    query: HTLC_EVENTS_QUERY,
+    variables: {
+      where: {
+        account_address: {
+          _eq: TxnBuilderTypes.AccountAddress.standardizeAddress(
+            config.aptosModuleAddress
+          ),
+        },
+        indexed_type: { _in: Array.from(htlcIndexedTypes().keys()) },
+        ...position,
+      },
+      limit,
+    },
+  })
+  return result.events
+}
+
+/**
+ * Convert an indexer row into the REST event shape used by the handlers
+ */
+function toHtlcEvent(row: IndexedEventRow): HtlcEvent {
+  return {
+    guid: {
+      creation_number: row.creation_number.toString(),
+      account_address: row.account_address,
+    },
+    sequence_number: row.sequence_number.toString(),
+    type: row.type,
+    data: row.data,
+    version: row.transaction_version.toString(),
+  }
+}
+
+/**
+ * Event source reading unreal_htlc events from the Aptos indexer GraphQL API
+ *
+ * Pages through all events from the version cursor onward, which is much
+ * faster than the fullnode when backfilling history or catching up after
+ * downtime. Per-handle sequence numbers are kept in step so the REST source
+ * can take over without replaying anything.
+ * @param indexer Indexer GraphQL client
+ * @param toVersion Optional last ledger version to ingest, for bounded backfills
+ */
+export function createIndexerEventSource(
+  indexer: IndexerClient,
+  toVersion?: bigint
+): AptosEventSource {
+  return {
+    name: "indexer",
+    async poll(cursors, onEvent) {
+      const types = htlcIndexedTypes()
+      let position: IndexedPosition = { version: BigInt(cursors.version) }
+      let processed = 0
+
+      while (true) {
+        const rows = await fetchIndexedEvents(indexer, position, toVersion)
+
+        for (const row of rows) {
+          position = {
+            version: BigInt(row.transaction_version),
+            eventIndex: row.event_index,
+          }
+          const handle = types.get(row.indexed_type)
+          if (!handle) continue
+
+          const event = toHtlcEvent(row)
+          if (isProcessed(cursors, handle, event)) continue
+
+          await onEvent(handle, event)
+          advanceCursors(cursors, handle, event)
+          processed++
+          // Other events may share this version, so resume from it rather than past it
+          if (position.version > BigInt(cursors.version)) {
+            cursors.version = position.version.toString()
+          }
+        }
+
+        if (rows.length < INDEXER_PAGE_LIMIT) break
+      }
+
+      return processed
+    },
+  }
+}
+
+/**
+ * Build the configured event source
+ * @param kind Backend to use
+ * @param client Aptos REST client, used by the `rest` source
+ * @param indexer Indexer client, used by the `indexer` source
+ */
+export function createAptosEventSource(
+  kind: AptosEventSourceKind,
+  client: AptosClient,
+  indexer: IndexerClient
+): AptosEventSource {
+  switch (kind) {
+    case "rest":
+      return createRestEventSource(client)
+    case "indexer":
+      return createIndexerEventSource(indexer)
+    default:
+      throw new Error(`Unknown Aptos event source: ${kind}`)
+  }
+}
@@ -0,0 +1,145 @@
+import { AptosClient, Types } from "aptos"
+import { config } from "../../config"
+import { generateLockId, lockEndtime, lookupLockId } from "./lock_id"
+
+// `unreal_htlc::LockContract` as returned by the REST API; u64 fields are decimal strings
+export interface AptosLock {
+  secret_hash: string
+  recipient: string
+  sender: string
+  amount: string
+  endtime: string
+  withdrawn: boolean
+  refunded: boolean
+  preimage: string
+  target_chain: string
+  target_address: string
+}
+
+// Data of `unreal_htlc::SwapInitiatedEvent` as returned by the REST API
+export interface AptosSwapInitiated {
+  // Derived with the initiation timestamp, unlike the lookup ID
+  lock_id: string
+  sender: string
+  recipient: string
+  amount: string
+  secret_hash: string
+  target_chain: string
+  target_address: string
+}
+
+// Data of `unreal_htlc::SwapWithdrawnEvent` as returned by the REST API
+export interface AptosSwapWithdrawn {
+  lock_id: string
+  recipient: string
+  amount: string
+  preimage: string
+}
+
+// Data of `unreal_htlc::SwapRefundedEvent` as returned by the REST API
+export interface AptosSwapRefunded {
+  lock_id: string
+  sender: string
+  amount: string
+}
+
+// Data of `unreal_htlc::CrossChainCompletedEvent` as returned by the REST API
+export interface AptosCrossChainCompleted {
+  source_chain: string
+  source_address: string
+  destination: string
+  amount: string
+  preimage: string
+}
+
+// Lock of a `SwapInitiatedEvent`, with what the event itself does not carry
+export interface InitiatedLock {
+  // ID that `withdraw` and `refund` accept, as emitted by their events
+  lockId: string
+  endtime: number
+}
+
+/**
+ * Current Aptos ledger time in seconds
+ * @param client Aptos client
+ */
+export async function getAptosLedgerTime(client: AptosClient): Promise<number> {
+  const ledgerInfo = await client.getLedgerInfo()
+  return Math.floor(Number(ledgerInfo.ledger_timestamp) / 1_000_000)
+}
+
+/**
+ * Read every lock held by the Aptos HTLC
+ *
+ * `has_lock_contract` is not a view function, so the locks are read from the
+ * `UnrealHTLCState` resource instead.
+ * @param client Aptos client
+ */
+export async function readAptosLocks(client: AptosClient): Promise<AptosLock[]> {
+  const resource = await client.getAccountResource(
+    config.aptosModuleAddress,
+    `${config.aptosModuleAddress}::${config.aptosModuleName}::UnrealHTLCState`
+  )
+  return (resource.data as { lock_contracts: AptosLock[] }).lock_contracts
+}
+
+/**
+ * ID that `withdraw` and `refund` accept for a lock read from `UnrealHTLCState`
+ * @param lock Lock as read by `readAptosLocks`
+ */
+export function aptosLockLookupId(lock: AptosLock): string {
+  return lookupLockId({
+    secretHash: lock.secret_hash,
+    recipient: lock.recipient,
+    sender: lock.sender,
+    amount: lock.amount,
+    endtime: lock.endtime,
+  })
+}
+
+/**
+ * Lookup ID and end time of the lock a `SwapInitiatedEvent` reports
+ *
+ * The event carries neither the end time nor the initiation timestamp, so
+ * both are read from the `initiate_swap` call that emitted it. The call is
+ * checked to produce the event's `lock_id` before it is trusted.
+ * @param client Aptos client
+ * @param version Ledger version of the transaction that emitted the event
+ * @param event Data of the event
+ * @returns undefined when the transaction is not an `initiate_swap` call for this lock
+ */
+export async function readInitiatedLock(
+  client: AptosClient,
+  version: string,
+  event: AptosSwapInitiated
+): Promise<InitiatedLock | undefined> {
+  const transaction = await client.getTransactionByVersion(BigInt(version))
+  if (transaction.type !== "user_transaction") {
+    return undefined
+  }
+  const payload = (transaction as Types.UserTransaction).payload
+  if (
+    payload.type !== "entry_function_payload" ||
+    !(payload as Types.EntryFunctionPayload).function.endsWith(
+      `::${config.aptosModuleName}::initiate_swap`
+    )
+  ) {
+    return undefined
+  }
+
+  // secret_hash, recipient, amount, timeout_hours, target_chain, target_address, timestamp
+  const args = (payload as Types.EntryFunctionPayload).arguments
+  const timestamp = args[6] as string
+  const endtime = lockEndtime(timestamp, args[3] as string)
+  const params = {
+    secretHash: event.secret_hash,
+    recipient: event.recipient,
+    sender: event.sender,
+    amount: event.amount,
+    endtime,
+  }
+  if (generateLockId({ ...params, timestamp }) !== event.lock_id.toLowerCase()) {
+    return undefined
+  }
+  return { lockId: lookupLockId(params), endtime: Number(endtime) }
+}
@@ -0,0 +1,199 @@
+import { AptosClient, TxnBuilderTypes, Types } from "aptos"
+import { AptosSigner } from "./signers"
+
+// Headroom on top of the simulated gas use, in percent
+const GAS_MARGIN_PERCENT = 50n
+
+// Abort reasons of the package's Move modules, as declared in `sources/`
+const ABORT_REASONS: Record<string, Record<number, [string, string]>> = {
+  unreal_htlc: {
+    1: ["ERR_NOT_OWNER", "caller is not the HTLC owner"],
+    2: ["ERR_NOT_RELAYER", "caller is not a registered relayer"],
+    3: ["ERR_ALREADY_INITIALIZED", "the HTLC is already initialized"],
+    4: ["ERR_SWAP_EXISTS", "a lock with the same parameters already exists"],
+    5: ["ERR_SWAP_NOT_FOUND", "no lock matches the lock ID"],
+    6: ["ERR_INVALID_PREIMAGE", "the preimage does not match the hashlock"],
+    7: ["ERR_NOT_RECIPIENT", "caller is not the lock recipient"],
+    8: ["ERR_NOT_SENDER", "caller is not the lock sender"],
+    9: ["ERR_ALREADY_WITHDRAWN", "the lock was already withdrawn"],
+    10: ["ERR_ALREADY_REFUNDED", "the lock was already refunded"],
+    11: ["ERR_TIMELOCK_NOT_EXPIRED", "the timelock has not passed yet"],
+    12: ["ERR_INVALID_EVM_ADDRESS", "the EVM address or calldata is empty"],
+    13: ["ERR_INVALID_AMOUNT", "the amount must be positive"],
+  },
+  unreal_token: {
+    1: ["ERR_NOT_OWNER", "caller is not the token owner"],
+    2: ["ERR_PAUSED", "the token is paused"],
+    3: ["ERR_NOT_PAUSED", "the token is not paused"],
+  },
+}
+
+// Categories of `std::error`, stored in the upper bits of an abort code
+const ERROR_CATEGORIES: Record<number, string> = {
+  0x1: "invalid_argument",
+  0x2: "out_of_range",
+  0x3: "invalid_state",
+  0x4: "unauthenticated",
+  0x5: "permission_denied",
+  0x6: "not_found",
+  0x7: "aborted",
+  0x8: "already_exists",
+  0x9: "resource_exhausted",
+  0xa: "cancelled",
+  0xb: "internal",
+  0xc: "not_implemented",
+  0xd: "unavailable",
+}
+
+// A Move abort decoded from a `vm_status`
+export interface MoveAbort {
+  module: string
+  // Abort code as raised, including the category
+  code: number
+  // Constant name, e.g. `ERR_INVALID_PREIMAGE`, when known
+  name?: string
+  category?: string
+  description?: string
+}
+
+/**
+ * Failed Aptos transaction, with the Move abort decoded where possible
+ */
+export class AptosTransactionError extends Error {
+  readonly vmStatus: string
+  readonly abort?: MoveAbort
+  // Hash of the committed transaction; unset when simulation failed and nothing was sent
+  readonly hash?: string
+
+  constructor(
+    action: string,
+    vmStatus: string,
+    abort: MoveAbort | undefined,
+    hash?: string
+  ) {
+    super(
+      `${action} ${hash ? `failed in transaction ${hash}` : "failed in simulation"}: ${
+        abort ? describeAbort(abort) : vmStatus
+      }`
+    )
+    this.name = "AptosTransactionError"
+    this.vmStatus = vmStatus
+    this.abort = abort
+    this.hash = hash
+  }
+}
+
+/**
+ * Decode a Move abort from a transaction's `vm_status`
+ *
+ * Nodes report either `Move abort in 0x1::module: NAME(0x10006): message`
+ * or, without an error map for the module, `Move abort in 0x1::module: 0x10006`.
+ * @param vmStatus The `vm_status` of a simulated or committed transaction
+ * @returns The abort, or undefined when the transaction failed otherwise
+ */
+export function decodeMoveAbort(vmStatus: string): MoveAbort | undefined {
+  const match = vmStatus.match(
+    /Move abort in 0x[0-9a-fA-F]+::(\w+): (?:(\w+)\()?(0x[0-9a-fA-F]+|\d+)/
+  )
+  if (!match) {
+    return undefined
+  }
+
+  const [, module, reportedName, rawCode] = match
+  const code = Number(rawCode)
+  const reason = ABORT_REASONS[module]?.[code & 0xffff]
+  return {
+    module,
+    code,
+    name: reason?.[0] ?? reportedName,
+    category: ERROR_CATEGORIES[code >> 16],
+    description: reason?.[1],
+  }
+}
+
+/**
+ * Readable summary of an abort, e.g. for error messages
+ */
+function describeAbort(abort: MoveAbort): string {
+  const name = abort.name ?? `abort code 0x${abort.code.toString(16)}`
+  const category = abort.category ? ` (${abort.category})` : ""
+  const description = abort.description ? `: ${abort.description}` : ""
+  return `${abort.module}::${name}${category}${description}`
+}
+
+/**
+ * Simulate an entry function call and return the gas settings to send it with
+ * @param client Aptos client
+ * @param signer Signer the transaction is sent from
+ * @param payload Entry function call
+ * @throws AptosTransactionError if the simulation fails
+ */
+export async function estimateAptosGas(
+  client: AptosClient,
+  signer: AptosSigner,
+  payload: Types.EntryFunctionPayload
+): Promise<{ maxGasAmount: bigint; gasUnitPrice: bigint }> {
+  const rawTxn = await client.generateTransaction(signer.address(), payload)
+  const [simulation] = await client.simulateTransaction(
+    new TxnBuilderTypes.Ed25519PublicKey(signer.publicKey().toUint8Array()),
+    rawTxn,
+    {
+      estimateGasUnitPrice: true,
+      estimateMaxGasAmount: true,
+      estimatePrioritizedGasUnitPrice: false,
+    }
+  )
+  if (!simulation.success) {
+    throw new AptosTransactionError(
+      payload.function,
+      simulation.vm_status,
+      decodeMoveAbort(simulation.vm_status)
+    )
+  }
+
+  const gasUsed = BigInt(simulation.gas_used)
+  return {
+    maxGasAmount: gasUsed + (gasUsed * GAS_MARGIN_PERCENT + 99n) / 100n,
+    gasUnitPrice: BigInt(simulation.gas_unit_price),
+  }
+}
+
+/**
+ * Simulate, send and confirm an entry function call
+ *
+ * The gas limit and price come from the simulation, so an abort is reported
+ * before anything is spent. A transaction that aborts on chain anyway is
+ * reported with its decoded abort too.
+ * @param client Aptos client
+ * @param signer Signer the transaction is sent from
+ * @param payload Entry function call
+ * @returns The committed transaction
+ * @throws AptosTransactionError if the simulation or the committed transaction fails
+ */
+export async function submitAptosTransaction(
+  client: AptosClient,
+  signer: AptosSigner,
+  payload: Types.EntryFunctionPayload
+): Promise<Types.UserTransaction> {
+  const gas = await estimateAptosGas(client, signer, payload)
+  const rawTxn = await client.generateTransaction(signer.address(), payload, {
+    max_gas_amount: gas.maxGasAmount.toString(),
+    gas_unit_price: gas.gasUnitPrice.toString(),
+  })
+  const pendingTx = await client.submitTransaction(
+    signer.signTransaction(rawTxn)
+  )
+
+  const committedTx = (await client.waitForTransactionWithResult(
+    pendingTx.hash
+  )) as Types.UserTransaction
+  if (!committedTx.success) {
+    throw new AptosTransactionError(
+      payload.function,
+      committedTx.vm_status,
+      decodeMoveAbort(committedTx.vm_status),
+      pendingTx.hash
+    )
+  }
+  return committedTx
+}
@@ -0,0 +1,191 @@
+// Shapes of the Dutch auction price curve between `startPrice` and `endPrice`
+export type AuctionCurveKind = "linear" | "piecewise" | "exponential"
+
+export const AUCTION_CURVES: readonly AuctionCurveKind[] = [
+  "linear",
+  "piecewise",
+  "exponential",
+]
+
+// Price the auction passes through `delay` seconds after it starts, like Fusion+ auction points
+export interface AuctionPoint {
+  delay: number
+  price: string // In the same units as startPrice and endPrice
+}
+
+// Curve an order's auction follows, signed with the order
+export interface AuctionShape {
+  auctionCurve: string
+  auctionPoints: AuctionPoint[]
+}
+
+// Auction fields of an order
+export interface AuctionParams extends AuctionShape {
+  startPrice: string
+  endPrice: string
+  startTime: number
+  endTime: number
+}
+
+export const LINEAR_AUCTION: AuctionShape = {
+  auctionCurve: "linear",
+  auctionPoints: [],
+}
+
+// Fixed-point scale of the exponential curve's intermediate values
+const SCALE = 10n ** 18n
+
+// Binary digits of the elapsed fraction used by the exponential curve
+const EXPONENT_BITS = 64
+
+/**
+ * Check the auction of an order can be evaluated
+ *
+ * Prices may only fall: every point lies between the start and end price,
+ * at or below the one before it.
+ * @throws Error naming the first problem found
+ */
+export function validateAuction(auction: AuctionParams): void {
+  if (!(AUCTION_CURVES as readonly string[]).includes(auction.auctionCurve)) {
+    throw new Error(
+      `Unknown auction curve ${auction.auctionCurve}, expected one of ${AUCTION_CURVES.join(", ")}`
+    )
+  }
+  const duration = auction.endTime - auction.startTime
+  if (duration <= 0) {
+    throw new Error(
+      `Auction must end after it starts, got ${auction.startTime} to ${auction.endTime}`
+    )
+  }
+  const startPrice = BigInt(auction.startPrice)
+  const endPrice = BigInt(auction.endPrice)
+  if (endPrice > startPrice) {
+    throw new Error(
+      `Auction end price ${endPrice} is above its start price ${startPrice}`
+    )
+  }
+
+  const points = auction.auctionPoints
+  if (auction.auctionCurve === "piecewise" && points.length === 0) {
+    throw new Error("A piecewise auction needs at least one point")
+  }
+  if (auction.auctionCurve !== "piecewise" && points.length > 0) {
+    throw new Error(`A ${auction.auctionCurve} auction takes no points`)
+  }
+  if (auction.auctionCurve === "exponential" && endPrice === 0n) {
+    throw new Error("An exponential auction needs a non-zero end price")
+  }
+
+  let previous = { delay: 0, price: startPrice }
+  for (const point of points) {
+    const price = BigInt(point.price)
+    if (point.delay <= previous.delay || point.delay >= duration) {
+      throw new Error(
+        `Auction point delays must increase within the ${duration}s auction, got ${point.delay}`
+      )
+    }
+    if (price > previous.price || price < endPrice) {
+      throw new Error(
+        `Auction point price ${price} at ${point.delay}s must lie between ${previous.price} and ${endPrice}`
+      )
+    }
+    previous = { delay: point.delay, price }
+  }
+}
+
+/**
+ * Price on the straight line between two points, rounded towards the first
+ */
+function interpolate(from: bigint, to: bigint, elapsed: bigint, span: bigint): bigint {
+  return from - ((from - to) * elapsed) / span
+}
+
+/**
+ * Integer square root, rounded down
+ */
+function sqrt(value: bigint): bigint {
+  if (value < 2n) {
+    return value
+  }
+  let root = value
+  let next = (root + 1n) / 2n
+  while (next < root) {
+    root = next
+    next = (root + value / root) / 2n
+  }
+  return root
+}
+
+/**
+ * `startPrice * (endPrice / startPrice) ^ (elapsed / duration)` in fixed point
+ *
+ * The exponent is expanded in binary: each digit halves the previous root by
+ * a square root, and the roots of the set digits are multiplied together.
+ * Only integer operations are used, so every solver gets the same price.
+ */
+function exponentialPrice(
+  startPrice: bigint,
+  endPrice: bigint,
+  elapsed: bigint,
+  duration: bigint
+): bigint {
+  let root = (endPrice * SCALE) / startPrice
+  let factor = SCALE
+  let remainder = elapsed
+  for (let bit = 0; bit < EXPONENT_BITS && remainder > 0n; bit++) {
+    root = sqrt(root * SCALE)
+    remainder *= 2n
+    if (remainder >= duration) {
+      remainder -= duration
+      factor = (factor * root) / SCALE
+    }
+  }
+  const price = (startPrice * factor) / SCALE
+  return price > endPrice ? price : endPrice
+}
+
+/**
+ * Auction price at a timestamp
+ *
+ * Before the auction starts the price is `startPrice`; from `endTime` on it
+ * is `endPrice`. In between it follows the order's curve:
+ * - `linear` falls in a straight line
+ * - `piecewise` runs straight between the auction points
+ * - `exponential` falls by the same ratio every second
+ * @param auction Auction fields of the order
+ * @param timestamp Block timestamp in seconds, so all solvers see one price
+ * @returns Price in the units of `startPrice`
+ * @throws Error if the auction is invalid
+ */
+export function auctionPrice(auction: AuctionParams, timestamp: bigint): bigint {
+  validateAuction(auction)
+  const startPrice = BigInt(auction.startPrice)
+  const endPrice = BigInt(auction.endPrice)
+  const startTime = BigInt(auction.startTime)
+  const duration = BigInt(auction.endTime) - startTime
+  if (timestamp <= startTime) {
+    return startPrice
+  }
+  const elapsed = timestamp - startTime
+  if (elapsed >= duration) {
+    return endPrice
+  }
+
+  if (auction.auctionCurve === "exponential") {
+    return exponentialPrice(startPrice, endPrice, elapsed, duration)
+  }
+
+  // A linear auction is a piecewise one without points
+  const points = [
+    { delay: 0n, price: startPrice },
+    ...auction.auctionPoints.map((point) => ({
+      delay: BigInt(point.delay),
+      price: BigInt(point.price),
+    })),
+    { delay: duration, price: endPrice },
+  ]
+  const next = points.findIndex((point) => point.delay > elapsed)
+  const from = points[next - 1]
+  const to = points[next]
+  return interpolate(from.price, to.price, elapsed - from.delay, to.delay - from.delay)
+}
@@ -0,0 +1,485 @@
+import * as fs from "fs"
+import * as path from "path"
+import { Chain, isAddress } from "viem"
+import { anvil, etherlink, etherlinkTestnet } from "viem/chains"
+import type { AptosEventSourceKind } from "./aptos_events"
+
+export type ConfigProfile = "local" | "testnet" | "mainnet"
+
+export const CONFIG_PROFILES: readonly ConfigProfile[] = [
+  "local",
+  "testnet",
+  "mainnet",
+]
+
+// Settings that can come from a profile, the config file or the environment
+export interface ConfigValues {
+  aptosNodeUrl: string
+  aptosIndexerUrl: string
+  // Backend for Aptos event ingestion in the relayer: "rest" (fullnode) or "indexer" (GraphQL)
+  aptosEventSource: AptosEventSourceKind
+  // Aptos signer: exactly one of a raw key, an Aptos CLI profile or a signing command
+  aptosPrivateKey: string
+  aptosCliProfile: string
+  aptosCliConfigPath: string
+  aptosSignerCommand: string
+  aptosModuleAddress: string
+  aptosModuleName: string
+  etherlinkRpcUrl: string
+  // Blocks the relayer waits before acting on Etherlink events, or "finalized" for the finalized tag
+  etherlinkConfirmations: string
+  // Etherlink signer: exactly one of a raw key, a JSON keystore or a signing command
+  etherlinkPrivateKey: string
+  etherlinkKeystorePath: string
+  etherlinkKeystorePassword: string
+  etherlinkSignerCommand: string
+  etherlinkBridgeAddress: string
+  etherlinkHtlcAddress: string
+  unrealTokenAddress: string
+  // Optional Hardhat artifact or raw ABI JSON replacing the bundled ABIs, for redeployed contracts
+  etherlinkHtlcAbiPath: string
+  unrealTokenAbiPath: string
+  // SQLite swap store shared by the relayer, bridge CLI and solver
+  swapStorePath: string
+  // Hex key encrypting stored secrets; a key file next to the store is used when empty
+  swapStoreKey: string
+  // Milliseconds an Etherlink transaction may stay unmined before it is sped up
+  etherlinkTxTimeout: number
+  // Fee bumps for a stuck Etherlink transaction before it is cancelled
+  etherlinkTxReplacements: number
+  // Relayer poll interval in milliseconds
+  pollInterval: number
+  // Fusion order book the solver subscribes to and makers submit orders to
+  orderBookUrl: string
+  // Solver pricing: ETH value of one UNREAL and of one APT, as decimals; required to run a solver
+  solverUnrealPrice: string
+  solverAptPrice: string
+  // Least profit in ETH the solver fills an order for
+  solverMinProfit: string
+  // Yearly cost of the solver's locked UNREAL, in basis points of its value
+  solverInventoryRateBps: number
+  // Most UNREAL the solver locks on Etherlink for one order and in all open locks; empty is unlimited.
+  // Aptos balances are only reported, as the solver locks nothing there
+  solverMaxOrderExposure: string
+  solverMaxTotalExposure: string
+}
+
+export interface UnrealConfig extends ConfigValues {
+  profile: ConfigProfile
+  etherlinkChainId: number
+}
+
+// Environment variable that sets each value
+export const CONFIG_ENV_VARS: Record<keyof ConfigValues, string> = {
+  aptosNodeUrl: "APTOS_NODE_URL",
+  aptosIndexerUrl: "APTOS_INDEXER_URL",
+  aptosEventSource: "APTOS_EVENT_SOURCE",
+  aptosPrivateKey: "APTOS_PRIVATE_KEY",
+  aptosCliProfile: "APTOS_CLI_PROFILE",
+  aptosCliConfigPath: "APTOS_CLI_CONFIG",
+  aptosSignerCommand: "APTOS_SIGNER_COMMAND",
+  aptosModuleAddress: "APTOS_MODULE_ADDRESS",
+  aptosModuleName: "APTOS_MODULE_NAME",
+  etherlinkRpcUrl: "ETHERLINK_RPC_URL",
+  etherlinkConfirmations: "ETHERLINK_CONFIRMATIONS",
+  etherlinkPrivateKey: "ETHERLINK_PRIVATE_KEY",
+  etherlinkKeystorePath: "ETHERLINK_KEYSTORE",
+  etherlinkKeystorePassword: "ETHERLINK_KEYSTORE_PASSWORD",
+  etherlinkSignerCommand: "ETHERLINK_SIGNER_COMMAND",
+  etherlinkBridgeAddress: "ETHERLINK_BRIDGE_ADDRESS",
+  etherlinkHtlcAddress: "ETHERLINK_HTLC_ADDRESS",
+  unrealTokenAddress: "UNREAL_TOKEN_ADDRESS",
+  etherlinkHtlcAbiPath: "ETHERLINK_HTLC_ABI_PATH",
+  unrealTokenAbiPath: "UNREAL_TOKEN_ABI_PATH",
+  swapStorePath: "SWAP_STORE_PATH",
+  swapStoreKey: "SWAP_STORE_KEY",
+  etherlinkTxTimeout: "ETHERLINK_TX_TIMEOUT",
+  etherlinkTxReplacements: "ETHERLINK_TX_REPLACEMENTS",
+  pollInterval: "RELAYER_POLL_INTERVAL",
+  orderBookUrl: "ORDER_BOOK_URL",
+  solverUnrealPrice: "SOLVER_UNREAL_PRICE",
+  solverAptPrice: "SOLVER_APT_PRICE",
+  solverMinProfit: "SOLVER_MIN_PROFIT",
+  solverInventoryRateBps: "SOLVER_INVENTORY_RATE_BPS",
+  solverMaxOrderExposure: "SOLVER_MAX_ORDER_EXPOSURE",
+  solverMaxTotalExposure: "SOLVER_MAX_TOTAL_EXPOSURE",
+}
+
+// Values never printed in full
+const SECRET_KEYS: ReadonlyArray<keyof ConfigValues> = [
+  "aptosPrivateKey",
+  "etherlinkPrivateKey",
+  "etherlinkKeystorePassword",
+  "swapStoreKey",
+]
+
+// Etherlink chain of each profile
+export const PROFILE_CHAINS: Record<ConfigProfile, Chain> = {
+  local: anvil,
+  testnet: etherlinkTestnet,
+  mainnet: etherlink,
+}
+
+// Defaults of each profile; deployment specific values have none
+const PROFILE_DEFAULTS: Record<ConfigProfile, Partial<ConfigValues>> = {
+  local: {
+    aptosNodeUrl: "http://127.0.0.1:8080/v1",
+    aptosIndexerUrl: "http://127.0.0.1:8090/v1/graphql",
+    etherlinkRpcUrl: "http://127.0.0.1:8545",
+    etherlinkConfirmations: "0",
+  },
+  testnet: {
+    aptosNodeUrl: "https://fullnode.testnet.aptoslabs.com",
+    aptosIndexerUrl: "https://indexer.testnet.aptoslabs.com/v1/graphql",
+    etherlinkRpcUrl: "https://node.ghostnet.etherlink.com",
+    etherlinkConfirmations: "2",
+  },
+  mainnet: {
+    aptosNodeUrl: "https://fullnode.mainnet.aptoslabs.com",
+    aptosIndexerUrl: "https://indexer.mainnet.aptoslabs.com/v1/graphql",
+    etherlinkRpcUrl: "https://node.mainnet.etherlink.com",
+    etherlinkConfirmations: "finalized",
+  },
+}
+
+// Defaults shared by every profile
+const COMMON_DEFAULTS: Partial<ConfigValues> = {
+  aptosEventSource: "rest",
+  aptosModuleName: "unreal",
+  aptosPrivateKey: "",
+  aptosCliProfile: "",
+  // Written by `aptos init` in the working directory
+  aptosCliConfigPath: ".aptos/config.yaml",
+  aptosSignerCommand: "",
+  etherlinkPrivateKey: "",
+  etherlinkKeystorePath: "",
+  etherlinkKeystorePassword: "",
+  etherlinkSignerCommand: "",
+  etherlinkBridgeAddress: "",
+  etherlinkHtlcAbiPath: "",
+  unrealTokenAbiPath: "",
+  swapStorePath: "swaps.db",
+  swapStoreKey: "",
+  etherlinkTxTimeout: 120000, // Default 2 minutes
+  etherlinkTxReplacements: 3,
+  pollInterval: 60000, // Default 1 minute
+  orderBookUrl: "http://127.0.0.1:8787",
+  solverUnrealPrice: "",
+  solverAptPrice: "",
+  solverMinProfit: "0",
+  solverInventoryRateBps: 500, // Default 5% a year
+  solverMaxOrderExposure: "",
+  solverMaxTotalExposure: "",
+}
+
+// Values parsed as numbers
+const NUMERIC_KEYS: ReadonlyArray<keyof ConfigValues> = [
+  "etherlinkTxTimeout",
+  "etherlinkTxReplacements",
+  "pollInterval",
+  "solverInventoryRateBps",
+]
+
+// Endpoints, which may embed API keys
+const URL_KEYS = [
+  "aptosNodeUrl",
+  "aptosIndexerUrl",
+  "etherlinkRpcUrl",
+  "orderBookUrl",
+] as const
+
+const HEX_32_BYTES = /^(0x)?[0-9a-fA-F]{64}$/
+// Aptos keys may carry the AIP-80 prefix
+const APTOS_PRIVATE_KEY = /^(ed25519-priv-)?(0x)?[0-9a-fA-F]{64}$/
+const APTOS_ADDRESS = /^0x[0-9a-fA-F]{1,64}$/
+const MOVE_IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/
+const DECIMAL = /^\d+(\.\d+)?$/
+
+/**
+ * Read the optional JSON config file
+ * @param file Path of the file; keys are the names in `ConfigValues` plus `profile`
+ * @throws Error if the file cannot be read or is not a JSON object
+ */
+function readConfigFile(file: string): Record<string, unknown> {
+  const resolved = path.resolve(file)
+  let json: unknown
+  try {
+    json = JSON.parse(fs.readFileSync(resolved, "utf8"))
+  } catch (error) {
+    throw new Error(`Cannot read config file ${resolved}: ${error}`)
+  }
+  if (!json || typeof json !== "object" || Array.isArray(json)) {
+    throw new Error(`Config file ${resolved} must contain a JSON object`)
+  }
+  return json as Record<string, unknown>
+}
+
+/**
+ * Check a URL uses http(s)
+ */
+function isHttpUrl(value: string): boolean {
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol)
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Collect every problem with the merged values
+ * @returns Human readable problems, empty when the config is valid
+ */
+function validate(values: Partial<ConfigValues>): string[] {
+  const problems: string[] = []
+  const describe = (key: keyof ConfigValues) =>
+    `${key} (${CONFIG_ENV_VARS[key]})`
+  const required = (key: keyof ConfigValues): string | undefined => {
+    const value = values[key]
+    if (value === undefined || value === "") {
+      problems.push(`${describe(key)} is required`)
+      return undefined
+    }
+    return String(value)
+  }
+
+  for (const key of URL_KEYS) {
+    const url = required(key)
+    if (url !== undefined && !isHttpUrl(url)) {
+      problems.push(`${describe(key)} is not an http(s) URL: ${url}`)
+    }
+  }
+
+  if (!["rest", "indexer"].includes(String(values.aptosEventSource))) {
+    problems.push(
+      `${describe("aptosEventSource")} must be "rest" or "indexer", got ${values.aptosEventSource}`
+    )
+  }
+
+  // Signers are resolved when a script starts; here only conflicts and formats are checked
+  const signerSources = {
+    Aptos: ["aptosPrivateKey", "aptosCliProfile", "aptosSignerCommand"],
+    Etherlink: [
+      "etherlinkPrivateKey",
+      "etherlinkKeystorePath",
+      "etherlinkSignerCommand",
+    ],
+  } as const
+  for (const [chain, keys] of Object.entries(signerSources)) {
+    const configured = keys.filter((key) => values[key])
+    if (configured.length > 1) {
+      problems.push(
+        `Only one ${chain} signer may be configured, got ${configured.map(describe).join(", ")}`
+      )
+    }
+  }
+
+  if (
+    values.aptosPrivateKey &&
+    !APTOS_PRIVATE_KEY.test(values.aptosPrivateKey)
+  ) {
+    problems.push(`${describe("aptosPrivateKey")} must be a 32-byte hex string`)
+  }
+  if (
+    values.aptosCliProfile &&
+    !fs.existsSync(path.resolve(values.aptosCliConfigPath ?? ""))
+  ) {
+    problems.push(
+      `${describe("aptosCliConfigPath")} does not exist: ${values.aptosCliConfigPath}`
+    )
+  }
+  if (
+    values.etherlinkPrivateKey &&
+    !HEX_32_BYTES.test(values.etherlinkPrivateKey)
+  ) {
+    problems.push(
+      `${describe("etherlinkPrivateKey")} must be a 32-byte hex string`
+    )
+  }
+  if (values.etherlinkKeystorePath && !values.etherlinkKeystorePassword) {
+    problems.push(
+      `${describe("etherlinkKeystorePassword")} is required with ${describe("etherlinkKeystorePath")}`
+    )
+  }
+
+  const moduleAddress = required("aptosModuleAddress")
+  if (moduleAddress !== undefined && !APTOS_ADDRESS.test(moduleAddress)) {
+    problems.push(
+      `${describe("aptosModuleAddress")} is not an Aptos address: ${moduleAddress}`
+    )
+  }
+
+  const moduleName = required("aptosModuleName")
+  if (moduleName !== undefined && !MOVE_IDENTIFIER.test(moduleName)) {
+    problems.push(
+      `${describe("aptosModuleName")} is not a Move identifier: ${moduleName}`
+    )
+  }
+
+  for (const key of ["etherlinkHtlcAddress", "unrealTokenAddress"] as const) {
+    const address = required(key)
+    if (address !== undefined && !isAddress(address)) {
+      problems.push(`${describe(key)} is not an EVM address: ${address}`)
+    }
+  }
+  const bridgeAddress = values.etherlinkBridgeAddress
+  if (bridgeAddress && !isAddress(bridgeAddress)) {
+    problems.push(
+      `${describe("etherlinkBridgeAddress")} is not an EVM address: ${bridgeAddress}`
+    )
+  }
+
+  const confirmations = values.etherlinkConfirmations
+  if (confirmations !== "finalized" && !/^\d+$/.test(String(confirmations))) {
+    problems.push(
+      `${describe("etherlinkConfirmations")} must be a block count or "finalized", got ${confirmations}`
+    )
+  }
+
+  if (values.swapStoreKey && !HEX_32_BYTES.test(values.swapStoreKey)) {
+    problems.push(`${describe("swapStoreKey")} must be a 32-byte hex string`)
+  }
+  required("swapStorePath")
+
+  const files = [
+    "etherlinkHtlcAbiPath",
+    "unrealTokenAbiPath",
+    "etherlinkKeystorePath",
+  ] as const
+  for (const key of files) {
+    const file = values[key]
+    if (file && !fs.existsSync(path.resolve(file))) {
+      problems.push(`${describe(key)} does not exist: ${file}`)
+    }
+  }
+
+  for (const key of ["etherlinkTxTimeout", "pollInterval"] as const) {
+    const value = Number(values[key])
+    if (!Number.isInteger(value) || value <= 0) {
+      problems.push(
+        `${describe(key)} must be a positive integer, got ${values[key]}`
+      )
+    }
+  }
+  for (const key of ["solverUnrealPrice", "solverAptPrice", "solverMinProfit"] as const) {
+    const value = values[key]
+    if (value && !DECIMAL.test(value)) {
+      problems.push(`${describe(key)} must be a decimal ETH amount, got ${value}`)
+    }
+  }
+  for (const key of ["solverMaxOrderExposure", "solverMaxTotalExposure"] as const) {
+    const value = values[key]
+    if (value && !DECIMAL.test(value)) {
+      problems.push(`${describe(key)} must be a decimal UNREAL amount, got ${value}`)
+    }
+  }
+  const rate = Number(values.solverInventoryRateBps)
+  if (!Number.isInteger(rate) || rate < 0) {
+    problems.push(
+      `${describe("solverInventoryRateBps")} must be a non-negative integer, got ${values.solverInventoryRateBps}`
+    )
+  }
+
+  const replacements = Number(values.etherlinkTxReplacements)
+  if (!Number.isInteger(replacements) || replacements < 0) {
+    problems.push(
+      `${describe("etherlinkTxReplacements")} must be a non-negative integer, got ${values.etherlinkTxReplacements}`
+    )
+  }
+
+  return problems
+}
+
+/**
+ * Resolve the configuration: profile defaults, then the config file, then environment variables
+ *
+ * The profile comes from UNREAL_PROFILE or the file's `profile` key and defaults to testnet.
+ * The config file is read from UNREAL_CONFIG when set.
+ * @param env Environment to read, normally `process.env`
+ * @throws Error listing every invalid or missing value
+ */
+export function loadConfig(env: NodeJS.ProcessEnv): UnrealConfig {
+  const file = env.UNREAL_CONFIG ? readConfigFile(env.UNREAL_CONFIG) : {}
+
+  const profile = (env.UNREAL_PROFILE ||
+    file.profile ||
+    "testnet") as ConfigProfile
+  if (!CONFIG_PROFILES.includes(profile)) {
+    throw new Error(
+      `Unknown config profile ${profile}; expected one of ${CONFIG_PROFILES.join(", ")}`
+    )
+  }
+
+  const values: Partial<ConfigValues> = {
+    ...COMMON_DEFAULTS,
+    ...PROFILE_DEFAULTS[profile],
+  }
+  const assign = (key: keyof ConfigValues, value: unknown) => {
+    ;(values as Record<string, unknown>)[key] =
+      NUMERIC_KEYS.includes(key) ? Number(value) : String(value)
+  }
+
+  for (const [key, value] of Object.entries(file)) {
+    if (key === "profile") {
+      continue
+    }
+    if (!(key in CONFIG_ENV_VARS)) {
+      throw new Error(`Unknown key ${key} in config file ${env.UNREAL_CONFIG}`)
+    }
+    assign(key as keyof ConfigValues, value)
+  }
+
+  for (const [key, name] of Object.entries(CONFIG_ENV_VARS)) {
+    const value = env[name]
+    if (value !== undefined && value !== "") {
+      assign(key as keyof ConfigValues, value.trim())
+    }
+  }
+
+  const problems = validate(values)
+  if (problems.length > 0) {
+    throw new Error(
+      `Invalid configuration (profile ${profile}):\n  - ${problems.join("\n  - ")}`
+    )
+  }
+
+  return {
+    ...(values as ConfigValues),
+    profile,
+    etherlinkChainId: PROFILE_CHAINS[profile].id,
+  }
+}
+
+/**
+ * Hide credentials embedded in a URL, such as API keys in the path or query
+ */
+function redactUrl(value: string): string {
+  const url = new URL(value)
+  const hasToken = url.pathname
+    .split("/")
+    .some((segment) => /^[0-9a-zA-Z_-]{20,}$/.test(segment))
+  const redacted =
+    url.username || url.password || url.search || hasToken
+      ? `${url.protocol}//${url.host}/<redacted>`
+      : value
+  return redacted
+}
+
+/**
+ * Copy of the configuration that is safe to print
+ */
+export function redactConfig(config: UnrealConfig): Record<string, unknown> {
+  const redacted: Record<string, unknown> = {
+    profile: config.profile,
+    etherlinkChainId: config.etherlinkChainId,
+  }
+  for (const key of Object.keys(CONFIG_ENV_VARS) as (keyof ConfigValues)[]) {
+    redacted[key] = config[key]
+  }
+  for (const key of SECRET_KEYS) {
+    redacted[key] = config[key] ? "<redacted>" : ""
+  }
+  for (const key of URL_KEYS) {
+    redacted[key] = redactUrl(config[key])
+  }
+  return redacted
+}
@@ -0,0 +1,49 @@
+// Why completing the destination leg of a swap failed
+export type SwapCompletionErrorCode =
+  // No lock for the swap exists on the source chain
+  | "source_missing"
+  // The source lock was refunded to its sender
+  | "source_refunded"
+  // The source timelock passed, so the sender can refund at any moment
+  | "source_expired"
+  // The secret does not open the swap's hashlock
+  | "invalid_secret"
+  // The Aptos receiver has no UnrealToken CoinStore; `complete_swap` would do nothing
+  | "destination_not_registered"
+  // A simulation of the completion reverted or aborted
+  | "simulation_failed"
+  // Reading chain state or sending the completion failed, e.g. an RPC error
+  | "rpc_failed"
+
+/**
+ * Failure to complete a swap, telling callers whether trying again can help
+ */
+export class SwapCompletionError extends Error {
+  readonly swapId: string
+  readonly code: SwapCompletionErrorCode
+  // Whether the same completion may succeed on a later attempt
+  readonly retryable: boolean
+  // Underlying error, e.g. the revert reason of a simulation
+  readonly cause?: unknown
+
+  constructor(
+    swapId: string,
+    code: SwapCompletionErrorCode,
+    message: string,
+    options: { retryable: boolean; cause?: unknown }
+  ) {
+    super(`Cannot complete swap ${swapId}: ${message}`)
+    this.name = "SwapCompletionError"
+    this.swapId = swapId
+    this.code = code
+    this.retryable = options.retryable
+    this.cause = options.cause
+  }
+}
+
+/**
+ * Message of an unknown thrown value, for wrapping it in a typed error
+ */
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
@@ -0,0 +1,318 @@
+import {
+  Account,
+  Address,
+  Chain,
+  createPublicClient,
+  createWalletClient,
+  encodeFunctionData,
+  GetContractEventsReturnType,
+  Hex,
+  http,
+  LocalAccount,
+  parseEventLogs,
+  PublicClient,
+  ReadContractReturnType,
+  TransactionReceipt,
+  Transport,
+  WalletClient,
+} from "viem"
+import { config, ETHERLINK_CHAIN } from "../../config"
+import { htlcAbi, tokenAbi } from "./abi"
+import { getEtherlinkSigner } from "./signers"
+import { createTxSender, EtherlinkTxSender, TxOverrides } from "./etherlink_tx"
+
+// Swap as stored by UnrealHTLC
+export type HtlcSwap = ReadContractReturnType<typeof htlcAbi, "getSwap">
+
+// Decoded UnrealHTLC event
+export type HtlcEventLog = GetContractEventsReturnType<
+  typeof htlcAbi,
+  undefined,
+  true
+>[number]
+
+// Arguments of `UnrealHTLC.initiateSwap`
+export interface InitiateSwapParams {
+  secretHash: Hex
+  recipient: Address
+  amount: bigint
+  // Absolute expiry in seconds
+  timelock: bigint
+  targetChain: string
+  targetAddress: string
+}
+
+// Arguments of `UnrealHTLC.completeSwap`
+export interface CompleteSwapParams {
+  sourceChain: string
+  sourceAddress: string
+  recipient: Address
+  amount: bigint
+  secret: Hex
+}
+
+export type { TxOverrides } from "./etherlink_tx"
+
+// Typed access to UnrealHTLC and UnrealToken on Etherlink for one account
+export interface EtherlinkClient {
+  address: Address
+  publicClient: PublicClient
+  walletClient: WalletClient<Transport, Chain, Account>
+  // Sends every write of this account, so they share one nonce sequence
+  sender: EtherlinkTxSender
+  decimals(): Promise<number>
+  // UnrealToken balance, of this account unless another owner is given
+  balanceOf(owner?: Address): Promise<bigint>
+  // UnrealToken allowance this account granted to a spender
+  allowance(spender: Address): Promise<bigint>
+  approve(
+    spender: Address,
+    amount: bigint,
+    overrides?: TxOverrides
+  ): Promise<TransactionReceipt>
+  initiateSwap(
+    params: InitiateSwapParams,
+    overrides?: TxOverrides
+  ): Promise<{ swapId: Hex; receipt: TransactionReceipt }>
+  completeSwap(
+    params: CompleteSwapParams,
+    overrides?: TxOverrides
+  ): Promise<TransactionReceipt>
+  withdraw(
+    swapId: Hex,
+    secret: Hex,
+    overrides?: TxOverrides
+  ): Promise<TransactionReceipt>
+  refund(swapId: Hex, overrides?: TxOverrides): Promise<TransactionReceipt>
+  simulateCompleteSwap(params: CompleteSwapParams): Promise<void>
+  simulateRefund(swapId: Hex): Promise<void>
+  getSwap(swapId: Hex): Promise<HtlcSwap>
+  getHtlcEvents(fromBlock: bigint, toBlock: bigint): Promise<HtlcEventLog[]>
+}
+
+let publicClient: PublicClient | undefined
+
+// One client per account so every caller in a process shares its nonce tracking
+const clients = new Map<Address, EtherlinkClient>()
+
+/**
+ * Read-only Etherlink client shared by the whole process
+ */
+export function getEtherlinkPublicClient(): PublicClient {
+  if (!publicClient) {
+    publicClient = createPublicClient({
+      chain: ETHERLINK_CHAIN,
+      transport: http(config.etherlinkRpcUrl),
+    })
+  }
+  return publicClient
+}
+
+/**
+ * Get the Etherlink client for an account, creating it on first use
+ * @param account Signing account; defaults to the configured Etherlink signer
+ */
+export function getEtherlinkClient(
+  account: LocalAccount = getEtherlinkSigner().account
+): EtherlinkClient {
+  const existing = clients.get(account.address)
+  if (existing) {
+    return existing
+  }
+
+  const client = createEtherlinkClient(account)
+  clients.set(account.address, client)
+  return client
+}
+
+/**
+ * Wrap UnrealHTLC and UnrealToken for an account
+ * @param account Account that signs transactions
+ */
+function createEtherlinkClient(account: Account): EtherlinkClient {
+  const publicClient = getEtherlinkPublicClient()
+  const walletClient = createWalletClient({
+    account,
+    chain: ETHERLINK_CHAIN,
+    transport: http(config.etherlinkRpcUrl),
+  })
+  const htlc = { address: config.etherlinkHtlcAddress as Address, abi: htlcAbi }
+  const token = { address: config.unrealTokenAddress as Address, abi: tokenAbi }
+  const sender = createTxSender(publicClient, walletClient, {
+    timeoutMs: config.etherlinkTxTimeout,
+    replacements: config.etherlinkTxReplacements,
+  })
+
+  return {
+    address: account.address,
+    publicClient,
+    walletClient,
+    sender,
+
+    async decimals() {
+      return publicClient.readContract({
+        ...token,
+        functionName: "decimals",
+      })
+    },
+
+    async balanceOf(owner = account.address) {
+      return publicClient.readContract({
+        ...token,
+        functionName: "balanceOf",
+        args: [owner],
+      })
+    },
+
+    async allowance(spender) {
+      return publicClient.readContract({
+        ...token,
+        functionName: "allowance",
+        args: [account.address, spender],
+      })
+    },
+
+    async approve(spender, amount, overrides = {}) {
+      return sender.send(
+        {
+          to: token.address,
+          data: encodeFunctionData({
+            abi: token.abi,
+            functionName: "approve",
+            args: [spender, amount],
+          }),
+        },
+        "approve",
+        overrides
+      )
+    },
+
+    async initiateSwap(params, overrides = {}) {
+      const receipt = await sender.send(
+        {
+          to: htlc.address,
+          data: encodeFunctionData({
+            abi: htlc.abi,
+            functionName: "initiateSwap",
+            args: [
+              params.secretHash,
+              params.recipient,
+              params.amount,
+              params.timelock,
+              params.targetChain,
+              params.targetAddress,
+            ],
+          }),
+        },
+        "initiateSwap",
+        overrides
+      )
+
+      const [initiated] = parseEventLogs({
+        abi: htlcAbi,
+        eventName: "SwapInitiated",
+        logs: receipt.logs.filter(
+          (log) => log.address.toLowerCase() === htlc.address.toLowerCase()
+        ),
+      })
+      if (!initiated) {
+        throw new Error(
+          `No SwapInitiated event in transaction ${receipt.transactionHash}`
+        )
+      }
+      return { swapId: initiated.args.swapId, receipt }
+    },
+
+    async completeSwap(params, overrides = {}) {
+      return sender.send(
+        {
+          to: htlc.address,
+          data: encodeFunctionData({
+            abi: htlc.abi,
+            functionName: "completeSwap",
+            args: [
+              params.sourceChain,
+              params.sourceAddress,
+              params.recipient,
+              params.amount,
+              params.secret,
+            ],
+          }),
+        },
+        "completeSwap",
+        overrides
+      )
+    },
+
+    async withdraw(swapId, secret, overrides = {}) {
+      return sender.send(
+        {
+          to: htlc.address,
+          data: encodeFunctionData({
+            abi: htlc.abi,
+            functionName: "withdraw",
+            args: [swapId, secret],
+          }),
+        },
+        "withdraw",
+        overrides
+      )
+    },
+
+    async refund(swapId, overrides = {}) {
+      return sender.send(
+        {
+          to: htlc.address,
+          data: encodeFunctionData({
+            abi: htlc.abi,
+            functionName: "refund",
+            args: [swapId],
+          }),
+        },
+        "refund",
+        overrides
+      )
+    },
+
+    async simulateCompleteSwap(params) {
+      await publicClient.simulateContract({
+        ...htlc,
+        functionName: "completeSwap",
+        args: [
+          params.sourceChain,
+          params.sourceAddress,
+          params.recipient,
+          params.amount,
+          params.secret,
+        ],
+        account,
+      })
+    },
+
+    async simulateRefund(swapId) {
+      await publicClient.simulateContract({
+        ...htlc,
+        functionName: "refund",
+        args: [swapId],
+        account,
+      })
+    },
+
+    async getSwap(swapId) {
+      return publicClient.readContract({
+        ...htlc,
+        functionName: "getSwap",
+        args: [swapId],
+      })
+    },
+
+    async getHtlcEvents(fromBlock, toBlock) {
+      return publicClient.getContractEvents({
+        ...htlc,
+        fromBlock,
+        toBlock,
+        strict: true as const,
+      })
+    },
+  }
+}
@@ -0,0 +1,274 @@
+import {
+  Account,
+  Address,
+  Chain,
+  Eip1559FeesNotSupportedError,
+  formatGwei,
+  Hash,
+  Hex,
+  PublicClient,
+  TransactionReceipt,
+  Transport,
+  WaitForTransactionReceiptTimeoutError,
+  WalletClient,
+} from "viem"
+
+// Headroom on top of the estimated gas, in percent
+const GAS_MARGIN_PERCENT = 20n
+
+// Fee increase of each replacement; nodes reject replacements below 10%
+const REPLACEMENT_BUMP_PERCENT = 25n
+
+// Gas of a plain transfer, used by cancellations
+const TRANSFER_GAS = 21000n
+
+// Gas settings for a single transaction; estimated when omitted
+export interface TxOverrides {
+  gas?: bigint
+  maxFeePerGas?: bigint
+  maxPriorityFeePerGas?: bigint
+}
+
+// A contract call or transfer sent from the managed account
+export interface TxRequest {
+  to: Address
+  data?: Hex
+  value?: bigint
+}
+
+// How long to wait for a transaction and how often to replace it
+export interface SendOptions {
+  // Milliseconds to wait for each submission before replacing it
+  timeoutMs: number
+  // Fee bumps before the transaction is cancelled instead
+  replacements: number
+}
+
+// Fee fields of a transaction; legacy `gasPrice` when the chain has no base fee
+type Fees =
+  | { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }
+  | { gasPrice: bigint }
+
+// Sends transactions from one account with local nonces and stuck-transaction handling
+export interface EtherlinkTxSender {
+  /**
+   * Send a transaction and wait until it is mined
+   *
+   * A transaction still unmined after the timeout is resent under the same
+   * nonce with higher fees; once the replacements are used up it is
+   * cancelled with a zero-value transfer to self.
+   * @param request Call to send
+   * @param label Description used in log messages, e.g. the function name
+   * @param overrides Gas limit or fees to use instead of the estimates
+   * @throws Error if the transaction reverted or was cancelled
+   */
+  send(
+    request: TxRequest,
+    label: string,
+    overrides?: TxOverrides
+  ): Promise<TransactionReceipt>
+}
+
+/**
+ * Fees in gwei, for log messages
+ */
+function describeFees(fees: Fees): string {
+  return "gasPrice" in fees
+    ? `gas price ${formatGwei(fees.gasPrice)} gwei`
+    : `max fee ${formatGwei(fees.maxFeePerGas)} gwei, tip ${formatGwei(fees.maxPriorityFeePerGas)} gwei`
+}
+
+/**
+ * Raise every fee by the replacement bump, but not below the current estimate
+ * @param fees Fees of the transaction being replaced
+ * @param current Fees the node suggests now
+ */
+function bumpFees(fees: Fees, current: Fees): Fees {
+  const bump = (value: bigint, floor: bigint) => {
+    const bumped = (value * (100n + REPLACEMENT_BUMP_PERCENT)) / 100n
+    return bumped > floor ? bumped : floor
+  }
+  if ("gasPrice" in fees) {
+    return {
+      gasPrice: bump(fees.gasPrice, "gasPrice" in current ? current.gasPrice : 0n),
+    }
+  }
+  if ("gasPrice" in current) {
+    return {
+      maxFeePerGas: bump(fees.maxFeePerGas, current.gasPrice),
+      maxPriorityFeePerGas: bump(fees.maxPriorityFeePerGas, 0n),
+    }
+  }
+  return {
+    maxFeePerGas: bump(fees.maxFeePerGas, current.maxFeePerGas),
+    maxPriorityFeePerGas: bump(
+      fees.maxPriorityFeePerGas,
+      current.maxPriorityFeePerGas
+    ),
+  }
+}
+
+/**
+ * Create the sender for a wallet's account
+ *
+ * Nonces are assigned locally and in order, so concurrent callers never
+ * reuse one. The next nonce is re-read from the node after a failed submission.
+ * @param publicClient Client used to estimate and wait
+ * @param walletClient Client that signs and submits
+ * @param options Timeout and replacement count
+ */
+export function createTxSender(
+  publicClient: PublicClient,
+  walletClient: WalletClient<Transport, Chain, Account>,
+  options: SendOptions
+): EtherlinkTxSender {
+  const account = walletClient.account
+  let nextNonce: number | undefined
+  // Submissions run one at a time so nonces are handed out in order
+  let submissions: Promise<unknown> = Promise.resolve()
+
+  /**
+   * Current fees: EIP-1559 when the chain reports a base fee, legacy otherwise
+   */
+  async function estimateFees(): Promise<Fees> {
+    try {
+      const { maxFeePerGas, maxPriorityFeePerGas } =
+        await publicClient.estimateFeesPerGas()
+      return { maxFeePerGas, maxPriorityFeePerGas }
+    } catch (error) {
+      if (!(error instanceof Eip1559FeesNotSupportedError)) {
+        throw error
+      }
+      return { gasPrice: await publicClient.getGasPrice() }
+    }
+  }
+
+  /**
+   * Sign and submit with the given nonce, or the next free one
+   */
+  function submit(
+    request: TxRequest & { gas: bigint },
+    fees: Fees,
+    nonce?: number
+  ): Promise<{ hash: Hash; nonce: number }> {
+    const submission = submissions.then(async () => {
+      const reserved = nonce === undefined
+      if (reserved && nextNonce === undefined) {
+        nextNonce = await publicClient.getTransactionCount({
+          address: account.address,
+          blockTag: "pending",
+        })
+      }
+      const txNonce = nonce ?? nextNonce!
+      try {
+        const hash = await walletClient.sendTransaction({
+          ...request,
+          ...fees,
+          nonce: txNonce,
+        } as Parameters<typeof walletClient.sendTransaction>[0])
+        if (reserved) {
+          nextNonce = txNonce + 1
+        }
+        return { hash, nonce: txNonce }
+      } catch (error) {
+        // The node's view of the account is authoritative after a rejection
+        nextNonce = undefined
+        throw error
+      }
+    })
+    submissions = submission.catch(() => undefined)
+    return submission
+  }
+
+  /**
+   * Wait for whichever submission under a nonce gets mined
+   * @returns The receipt, or undefined once the timeout passes
+   */
+  async function waitForNonce(hash: Hash): Promise<TransactionReceipt | undefined> {
+    try {
+      // viem follows the nonce, so this also returns an earlier submission mined instead
+      return await publicClient.waitForTransactionReceipt({
+        hash,
+        timeout: options.timeoutMs,
+      })
+    } catch (error) {
+      if (error instanceof WaitForTransactionReceiptTimeoutError) {
+        return undefined
+      }
+      throw error
+    }
+  }
+
+  return {
+    async send(request, label, overrides = {}) {
+      let gas = overrides.gas
+      if (gas === undefined) {
+        const estimate = await publicClient.estimateGas({ ...request, account })
+        gas = estimate + (estimate * GAS_MARGIN_PERCENT) / 100n
+      }
+      let fees: Fees =
+        overrides.maxFeePerGas !== undefined
+          ? {
+              maxFeePerGas: overrides.maxFeePerGas,
+              maxPriorityFeePerGas:
+                overrides.maxPriorityFeePerGas ?? overrides.maxFeePerGas,
+            }
+          : await estimateFees()
+
+      const sent = await submit({ ...request, gas }, fees)
+      const nonce = sent.nonce
+      let hash = sent.hash
+      let cancelHash: Hash | undefined
+      console.log(
+        `${label}: sent ${hash} with nonce ${nonce}, ${describeFees(fees)}`
+      )
+
+      for (let attempt = 0; ; attempt++) {
+        const receipt = await waitForNonce(hash)
+        if (receipt) {
+          if (receipt.transactionHash === cancelHash) {
+            throw new Error(
+              `${label}: transaction with nonce ${nonce} was stuck and has been cancelled`
+            )
+          }
+          if (receipt.status !== "success") {
+            throw new Error(
+              `Etherlink transaction ${receipt.transactionHash} reverted`
+            )
+          }
+          return receipt
+        }
+        // Neither the replacements nor the cancellation got mined
+        if (attempt > options.replacements) {
+          throw new Error(
+            `${label}: nonce ${nonce} is still not mined, last sent as ${hash}`
+          )
+        }
+
+        fees = bumpFees(fees, await estimateFees())
+        const cancel = attempt >= options.replacements
+        try {
+          const replacement = cancel
+            ? { to: account.address, value: 0n, gas: TRANSFER_GAS }
+            : { ...request, gas }
+          hash = (await submit(replacement, fees, nonce)).hash
+        } catch (error) {
+          // Usually the original was mined meanwhile and the nonce is used up
+          console.warn(
+            `${label}: replacing nonce ${nonce} failed, waiting for ${hash}:`,
+            error instanceof Error ? error.message : error
+          )
+          continue
+        }
+        if (cancel) {
+          cancelHash = hash
+          console.warn(`${label}: cancelling stuck nonce ${nonce} with ${hash}`)
+        } else {
+          console.warn(
+            `${label}: nonce ${nonce} not mined after ${options.timeoutMs}ms, resent as ${hash} with ${describeFees(fees)}`
+          )
+        }
+      }
+    },
+  }
+}
@@ -0,0 +1,121 @@
+import * as crypto from "crypto"
+import { keccak256 } from "viem"
+
+export type ChainName = "Etherlink" | "Aptos"
+
+export type HashAlgorithm = "keccak256" | "sha3_256"
+
+// Hash function each chain's HTLC applies to the preimage on claim
+export const CHAIN_HASH_ALGORITHMS: Record<ChainName, HashAlgorithm> = {
+  // UnrealHTLC.sol checks keccak256(secret)
+  Etherlink: "keccak256",
+  // unreal_htlc::withdraw checks aptos_hash::keccak256(preimage), so both legs share one hashlock
+  Aptos: "keccak256",
+}
+
+// Length of generated preimages in bytes
+const SECRET_LENGTH = 32
+
+// A preimage with the hashlock it produces on each chain
+export interface Secret {
+  secret: `0x${string}`
+  hashlocks: Record<ChainName, `0x${string}`>
+}
+
+/**
+ * Normalize a hex string with or without prefix to lowercase 0x-prefixed form
+ */
+function toHex(value: string): `0x${string}` {
+  const hex = value.replace(/^0x/i, "").toLowerCase()
+  if (!/^[0-9a-f]*$/.test(hex) || hex.length % 2 !== 0) {
+    throw new Error(`Invalid hex string: ${value}`)
+  }
+  return `0x${hex}`
+}
+
+/**
+ * Hash a preimage with the given algorithm
+ * @param preimage Hex encoded preimage
+ * @param algorithm Hash function to apply
+ * @returns Hex encoded digest
+ */
+export function hashPreimage(
+  preimage: string,
+  algorithm: HashAlgorithm
+): `0x${string}` {
+  const preimageHex = toHex(preimage)
+  switch (algorithm) {
+    case "keccak256":
+      return keccak256(preimageHex)
+    case "sha3_256":
+      return toHex(
+        crypto
+          .createHash("sha3-256")
+          .update(Buffer.from(preimageHex.slice(2), "hex"))
+          .digest("hex")
+      )
+  }
+}
+
+/**
+ * Compute the hashlock a chain's HTLC expects for a preimage
+ * @param chain Chain the lock lives on
+ * @param preimage Hex encoded preimage
+ */
+export function hashlockFor(chain: ChainName, preimage: string): `0x${string}` {
+  return hashPreimage(preimage, CHAIN_HASH_ALGORITHMS[chain])
+}
+
+/**
+ * Compute the hashlocks for a preimage on every supported chain
+ * @param preimage Hex encoded preimage
+ */
+export function secretFromPreimage(preimage: string): Secret {
+  return {
+    secret: toHex(preimage),
+    hashlocks: {
+      Etherlink: hashlockFor("Etherlink", preimage),
+      Aptos: hashlockFor("Aptos", preimage),
+    },
+  }
+}
+
+/**
+ * Generate a random preimage together with its hashlock on each chain
+ */
+export function generateSecret(): Secret {
+  return secretFromPreimage(crypto.randomBytes(SECRET_LENGTH).toString("hex"))
+}
+
+/**
+ * Check whether a preimage opens a hashlock on the given chain
+ * @param chain Chain the lock lives on
+ * @param preimage Hex encoded preimage
+ * @param hashlock Hex encoded hashlock
+ */
+export function verifyHashlock(
+  chain: ChainName,
+  preimage: string,
+  hashlock: string
+): boolean {
+  return hashlockFor(chain, preimage) === toHex(hashlock)
+}
+
+/**
+ * Refuse a hashlock that the chain's HTLC would never release for this preimage
+ * @param chain Chain the lock lives on
+ * @param preimage Hex encoded preimage
+ * @param hashlock Hex encoded hashlock
+ * @throws Error naming the expected hash function when the hashlock does not match
+ */
+export function assertClaimable(
+  chain: ChainName,
+  preimage: string,
+  hashlock: string
+): void {
+  if (!verifyHashlock(chain, preimage, hashlock)) {
+    throw new Error(
+      `Hashlock ${hashlock} cannot be claimed on ${chain}: expected ${CHAIN_HASH_ALGORITHMS[chain]}(preimage) = ${hashlockFor(chain, preimage)}`
+    )
+  }
+}
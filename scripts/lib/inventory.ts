@@ -0,0 +1,247 @@
+import { AptosClient, HexString } from "aptos"
+import { config } from "../../config"
+import {
+  ChainDecimals,
+  formatAmount,
+  fromRaw,
+  parseAmount,
+  unrealCoinType,
+} from "./amount"
+import { EtherlinkClient } from "./etherlink"
+import { ChainName } from "./hashlock"
+import { sleep } from "./retry"
+import { SwapRecord, SwapStore } from "./swap_store"
+import { SwapStatus } from "./swap_state"
+
+// Milliseconds between attempts of a queued reservation
+const RESERVATION_RETRY_INTERVAL = 15000
+
+// Statuses in which a lock is no longer open, by the leg it is
+const SOURCE_SETTLED: readonly SwapStatus[] = ["source_claimed", "refunded"]
+const DESTINATION_SETTLED: readonly SwapStatus[] = [
+  "destination_claimed",
+  "source_claimed",
+]
+
+const CHAINS: readonly ChainName[] = ["Etherlink", "Aptos"]
+
+// The solver's UnrealToken on one chain, in the chain's base units
+export interface ChainInventory {
+  // In the solver's account
+  balance: bigint
+  // Set aside for orders being filled that have not locked yet
+  reserved: bigint
+  // In the solver's open HTLC locks
+  locked: bigint
+  // Balance not reserved
+  free: bigint
+}
+
+// Limits on the solver's UnrealToken in Etherlink HTLC locks, in base units; unset is unlimited
+export interface ExposureLimits {
+  maxOrder?: bigint
+  maxTotal?: bigint
+}
+
+// Etherlink funds set aside for one order until its lock is recorded
+export interface Reservation {
+  amount: bigint
+  // Hand the funds back; calling it again does nothing
+  release(): void
+}
+
+// Where the solver's funds are and what it may still commit
+export interface SolverInventory {
+  decimals: ChainDecimals
+  limits: ExposureLimits
+  /**
+   * Read the balances on both chains and the open locks from the swap store
+   */
+  report(): Promise<Record<ChainName, ChainInventory>>
+  /**
+   * Set Etherlink funds aside for an order
+   *
+   * The solver only locks on Etherlink, so only Etherlink funds are reserved
+   * and capped. An order the free balance or the total cap cannot cover now
+   * is queued until locks settle, reservations are released or the balance
+   * grows.
+   * @param key Order key, named in log messages
+   * @param amount Amount in Etherlink base units
+   * @param deadline Order deadline; the order leaves the queue when it passes
+   * @throws Error if the amount exceeds the per-order cap or the deadline passes while queued
+   */
+  reserve(key: string, amount: bigint, deadline: number): Promise<Reservation>
+}
+
+// The solver's accounts and the store recording its locks
+export interface InventorySources {
+  etherlink: EtherlinkClient
+  aptosClient: AptosClient
+  aptosAddress: string
+  store: SwapStore
+  decimals: ChainDecimals
+}
+
+/**
+ * Exposure caps from the configuration, in Etherlink base units
+ * @param decimals UnrealToken decimals per chain
+ */
+export function configuredLimits(decimals: ChainDecimals): ExposureLimits {
+  const parse = (value: string) =>
+    value ? parseAmount(value, decimals.Etherlink).raw : undefined
+  return {
+    maxOrder: parse(config.solverMaxOrderExposure),
+    maxTotal: parse(config.solverMaxTotalExposure),
+  }
+}
+
+/**
+ * UnrealToken balance of an Aptos account; zero when it has no CoinStore
+ */
+async function readAptosBalance(
+  client: AptosClient,
+  address: string
+): Promise<bigint> {
+  const coin = { type_arguments: [unrealCoinType()], arguments: [address] }
+  const [registered] = await client.view({
+    function: "0x1::coin::is_account_registered",
+    ...coin,
+  })
+  if (!registered) {
+    return 0n
+  }
+  const [balance] = await client.view({ function: "0x1::coin::balance", ...coin })
+  return BigInt(balance as string)
+}
+
+/**
+ * Amount a swap's leg on a chain still holds in a lock of the sender
+ */
+function openLockAmount(
+  swap: SwapRecord,
+  chain: ChainName,
+  sender: string
+): bigint {
+  const leg = swap.legs[chain]
+  if (!leg?.initTx || !leg.amount || !leg.sender || leg.claimTx || leg.refundTx) {
+    return 0n
+  }
+  const same =
+    chain === "Aptos"
+      ? HexString.ensure(leg.sender).toShortString() ===
+        HexString.ensure(sender).toShortString()
+      : leg.sender.toLowerCase() === sender.toLowerCase()
+  const settled = chain === swap.targetChain ? DESTINATION_SETTLED : SOURCE_SETTLED
+  return same && !settled.includes(swap.status) ? BigInt(leg.amount) : 0n
+}
+
+/**
+ * Create the inventory of a solver
+ *
+ * Reservations live in this process: they cover the time between accepting
+ * an order and recording its lock in the swap store, after which the lock
+ * counts as locked instead.
+ * @param sources The solver's accounts and swap store
+ * @param limits Exposure caps on Etherlink
+ */
+export function createInventory(
+  sources: InventorySources,
+  limits: ExposureLimits
+): SolverInventory {
+  // Nothing is reserved on Aptos, where the solver does not lock
+  const reserved: Record<ChainName, bigint> = { Etherlink: 0n, Aptos: 0n }
+  // Reservations are checked one at a time, so two cannot take the same funds
+  let attempts: Promise<unknown> = Promise.resolve()
+  const format = (amount: bigint) =>
+    `${formatAmount(fromRaw(amount, sources.decimals.Etherlink))} UNREAL`
+
+  const report = async (): Promise<Record<ChainName, ChainInventory>> => {
+    const [etherlinkBalance, aptosBalance] = await Promise.all([
+      sources.etherlink.balanceOf(),
+      readAptosBalance(sources.aptosClient, sources.aptosAddress),
+    ])
+    const balances = { Etherlink: etherlinkBalance, Aptos: aptosBalance }
+    const senders = {
+      Etherlink: sources.etherlink.address as string,
+      Aptos: sources.aptosAddress,
+    }
+    const swaps = sources.store.findSwaps()
+    const inventory = {} as Record<ChainName, ChainInventory>
+    for (const chain of CHAINS) {
+      inventory[chain] = {
+        balance: balances[chain],
+        reserved: reserved[chain],
+        locked: swaps.reduce(
+          (sum, swap) => sum + openLockAmount(swap, chain, senders[chain]),
+          0n
+        ),
+        free:
+          balances[chain] > reserved[chain] ? balances[chain] - reserved[chain] : 0n,
+      }
+    }
+    return inventory
+  }
+
+  /**
+   * Reserve if the funds and caps allow it now
+   * @returns Why the order must wait, or undefined once reserved
+   */
+  const tryReserve = async (amount: bigint) => {
+    const { free, locked } = (await report()).Etherlink
+    const exposure = locked + reserved.Etherlink + amount
+    const maxTotal = limits.maxTotal
+    if (free < amount) {
+      return `${format(free)} free on Etherlink, ${format(amount)} needed`
+    }
+    if (maxTotal !== undefined && exposure > maxTotal) {
+      return `exposure on Etherlink would reach ${format(exposure)}, above the cap of ${format(maxTotal)}`
+    }
+    reserved.Etherlink += amount
+    return undefined
+  }
+
+  return {
+    decimals: sources.decimals,
+    limits,
+    report,
+
+    async reserve(key, amount, deadline) {
+      const maxOrder = limits.maxOrder
+      if (maxOrder !== undefined && amount > maxOrder) {
+        throw new Error(
+          `Order ${key} needs ${format(amount)} on Etherlink, above the per-order cap of ${format(maxOrder)}`
+        )
+      }
+
+      let queued = false
+      while (true) {
+        const attempt = attempts.then(() => tryReserve(amount))
+        attempts = attempt.catch(() => undefined)
+        const shortfall = await attempt
+        if (!shortfall) {
+          break
+        }
+        if (Math.floor(Date.now() / 1000) >= deadline) {
+          throw new Error(`Order ${key} passed its deadline while queued: ${shortfall}`)
+        }
+        if (!queued) {
+          console.log(`Queued order ${key}: ${shortfall}`)
+          queued = true
+        }
+        await sleep(RESERVATION_RETRY_INTERVAL)
+      }
+
+      console.log(`Reserved ${format(amount)} on Etherlink for order ${key}`)
+      let released = false
+      return {
+        amount,
+        release() {
+          if (!released) {
+            released = true
+            reserved.Etherlink -= amount
+          }
+        },
+      }
+    },
+  }
+}
@@ -0,0 +1,71 @@
+import { BCS, HexString, MaybeHexString, TxnBuilderTypes } from "aptos"
+import * as crypto from "crypto"
+
+// Mirrors HOURS_TO_SECONDS in unreal_htlc
+const HOURS_TO_SECONDS = 3600n
+
+// Inputs of `unreal_htlc::generate_lock_id`
+export interface LockIdParams {
+  secretHash: MaybeHexString | Uint8Array
+  recipient: MaybeHexString
+  sender: MaybeHexString
+  amount: bigint | number | string
+  endtime: bigint | number | string
+  timestamp: bigint | number | string
+}
+
+/**
+ * Convert a hex string or byte array into bytes
+ */
+function toBytes(value: MaybeHexString | Uint8Array): Uint8Array {
+  return value instanceof Uint8Array
+    ? value
+    : HexString.ensure(value).toUint8Array()
+}
+
+/**
+ * Compute the end time `unreal_htlc::initiate_swap` stores for a lock
+ * @param timestamp Timestamp passed to `initiate_swap`, in seconds
+ * @param timeoutHours Timeout passed to `initiate_swap`
+ * @returns Lock end time in seconds
+ */
+export function lockEndtime(
+  timestamp: bigint | number | string,
+  timeoutHours: bigint | number | string
+): bigint {
+  return BigInt(timestamp) + BigInt(timeoutHours) * HOURS_TO_SECONDS
+}
+
+/**
+ * TypeScript port of `unreal_htlc::generate_lock_id`
+ *
+ * sha3_256(secret_hash || bcs(recipient) || bcs(sender) || bcs(amount) || bcs(endtime) || bcs(timestamp))
+ *
+ * Golden vectors are pinned in `test_generate_lock_id_golden_vectors` in tests/unreal_tests.move.
+ * @param params Lock parameters
+ * @returns Hex encoded lock ID
+ */
+export function generateLockId(params: LockIdParams): string {
+  const data = Buffer.concat([
+    toBytes(params.secretHash),
+    BCS.bcsToBytes(TxnBuilderTypes.AccountAddress.fromHex(params.recipient)),
+    BCS.bcsToBytes(TxnBuilderTypes.AccountAddress.fromHex(params.sender)),
+    BCS.bcsSerializeUint64(BigInt(params.amount)),
+    BCS.bcsSerializeUint64(BigInt(params.endtime)),
+    BCS.bcsSerializeUint64(BigInt(params.timestamp)),
+  ])
+  return "0x" + crypto.createHash("sha3-256").update(data).digest("hex")
+}
+
+/**
+ * ID that `withdraw` and `refund` accept for a lock
+ *
+ * `find_lock_contract` does not know the initiation timestamp and re-derives
+ * every stored lock's ID with a timestamp of 0, so this is the ID to look
+ * a lock up by, as opposed to the `lock_id` in `SwapInitiatedEvent`.
+ * @param params Lock parameters without the timestamp
+ * @returns Hex encoded lock ID
+ */
+export function lookupLockId(params: Omit<LockIdParams, "timestamp">): string {
+  return generateLockId({ ...params, timestamp: 0 })
+}
@@ -0,0 +1,113 @@
+import { OffchainOrder, OrderFilter } from "./orders"
+
+/**
+ * URL of an order book endpoint with the filter as query parameters
+ */
+function endpoint(baseUrl: string, pathname: string, filter: OrderFilter = {}): string {
+  const url = new URL(pathname, baseUrl)
+  for (const [key, value] of Object.entries(filter)) {
+    if (value !== undefined) {
+      url.searchParams.set(key, String(value))
+    }
+  }
+  return url.toString()
+}
+
+/**
+ * Read a JSON response, turning an error status into an Error with the service's message
+ */
+async function readJson<T>(response: Response): Promise<T> {
+  const body = (await response.json().catch(() => ({}))) as {
+    error?: string
+  }
+  if (!response.ok) {
+    throw new Error(
+      `Order book responded ${response.status}: ${body.error ?? response.statusText}`
+    )
+  }
+  return body as T
+}
+
+/**
+ * Submit a signed order to the order book
+ * @param baseUrl Order book URL, e.g. `config.orderBookUrl`
+ * @param order Signed order
+ * @returns The order as stored by the service
+ * @throws Error if the service rejected the order
+ */
+export async function submitOrder(
+  baseUrl: string,
+  order: OffchainOrder
+): Promise<OffchainOrder> {
+  const response = await fetch(endpoint(baseUrl, "/orders"), {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(order),
+  })
+  return (await readJson<{ order: OffchainOrder }>(response)).order
+}
+
+/**
+ * List the open orders, i.e. those whose deadline has not passed
+ * @param baseUrl Order book URL
+ * @param filter Chain pair to list orders for
+ */
+export async function fetchOpenOrders(
+  baseUrl: string,
+  filter: OrderFilter = {}
+): Promise<OffchainOrder[]> {
+  const response = await fetch(endpoint(baseUrl, "/orders", filter))
+  return (await readJson<{ orders: OffchainOrder[] }>(response)).orders
+}
+
+/**
+ * Subscribe to orders over server-sent events
+ *
+ * The service first sends every open order, then each new one as it is
+ * accepted. Orders are handed over one at a time: the next is not read until
+ * the handler's promise settles.
+ * @param baseUrl Order book URL
+ * @param filter Chain pair to receive orders for
+ * @param onOrder Handler of each order
+ * @returns When the service closes the stream
+ * @throws Error if the stream cannot be opened or breaks off
+ */
+export async function subscribeOrders(
+  baseUrl: string,
+  filter: OrderFilter,
+  onOrder: (order: OffchainOrder) => Promise<void>
+): Promise<void> {
+  const response = await fetch(endpoint(baseUrl, "/orders/stream", filter), {
+    headers: { accept: "text/event-stream" },
+  })
+  if (!response.ok || !response.body) {
+    await readJson(response)
+    throw new Error("Order book returned no event stream")
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ""
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) {
+      return
+    }
+    buffer += decoder.decode(value, { stream: true })
+
+    // Events end with a blank line; comments (`:`) are keep-alives
+    let end: number
+    while ((end = buffer.indexOf("\n\n")) >= 0) {
+      const event = buffer.slice(0, end)
+      buffer = buffer.slice(end + 2)
+      const data = event
+        .split("\n")
+        .filter((line) => line.startsWith("data:"))
+        .map((line) => line.slice(5).trimStart())
+        .join("\n")
+      if (data) {
+        await onOrder(JSON.parse(data) as OffchainOrder)
+      }
+    }
+  }
+}
@@ -0,0 +1,267 @@
+import { Address, Hex, recoverTypedDataAddress, zeroHash } from "viem"
+import { config } from "../../config"
+import { parseChainAddress } from "./address"
+import { AuctionPoint } from "./auction"
+import { ChainName } from "./hashlock"
+
+// Signed cross-chain order of a maker, filled by a solver
+export interface OffchainOrder {
+  maker: string // Address of the maker (user)
+  sourceChainId: number // Source chain ID
+  targetChainId: number // Target chain ID
+  sourceToken: string // Source token address
+  targetToken: string // Target token address
+  amount: string // Amount to swap, in source token base units
+  minReturn: string // Minimum amount to receive after swap, in base units
+  receiver: string // Address to receive swapped tokens, in the target chain's format
+  deadline: number // Order deadline timestamp
+  nonce: string // Unique nonce to prevent replay attacks
+  startPrice: string // Starting price for Dutch auction
+  endPrice: string // Ending price for Dutch auction
+  startTime: number // Auction start timestamp
+  endTime: number // Auction end timestamp
+  auctionCurve: string // Shape of the auction price curve, see lib/auction
+  auctionPoints: AuctionPoint[] // Prices passed through by a piecewise auction
+  // Hashlock of the maker's secret, the same on both chains; zero when the solver picks the secret
+  hashlock: string
+  signature: string // EIP-712 signature
+}
+
+// EIP-712 domain and types for structured data signing
+export const EIP712_DOMAIN = {
+  name: "UnrealFusion",
+  version: "1",
+  chainId: config.etherlinkChainId, // Use the chain ID from config
+  verifyingContract: config.etherlinkHtlcAddress as Address,
+}
+
+// EIP-712 types for order signing
+export const EIP712_TYPES = {
+  Order: [
+    { name: "maker", type: "address" },
+    { name: "sourceChainId", type: "uint256" },
+    { name: "targetChainId", type: "uint256" },
+    { name: "sourceToken", type: "address" },
+    { name: "targetToken", type: "address" },
+    { name: "amount", type: "uint256" },
+    { name: "minReturn", type: "uint256" },
+    // Target chain address; Aptos addresses do not fit an EVM `address`
+    { name: "receiver", type: "string" },
+    { name: "deadline", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "startPrice", type: "uint256" },
+    { name: "endPrice", type: "uint256" },
+    { name: "startTime", type: "uint256" },
+    { name: "endTime", type: "uint256" },
+    { name: "auctionCurve", type: "string" },
+    { name: "auctionPoints", type: "AuctionPoint[]" },
+    { name: "hashlock", type: "bytes32" },
+  ],
+  AuctionPoint: [
+    { name: "delay", type: "uint256" },
+    { name: "price", type: "uint256" },
+  ],
+} as const
+
+/**
+ * Typed-data message of an order as it is signed
+ * @param order Order fields without the signature
+ */
+export function orderMessage(order: Omit<OffchainOrder, "signature">) {
+  return {
+    maker: order.maker as Address,
+    sourceChainId: BigInt(order.sourceChainId),
+    targetChainId: BigInt(order.targetChainId),
+    sourceToken: order.sourceToken as Address,
+    targetToken: order.targetToken as Address,
+    amount: BigInt(order.amount),
+    minReturn: BigInt(order.minReturn),
+    receiver: order.receiver,
+    deadline: BigInt(order.deadline),
+    nonce: BigInt(order.nonce),
+    startPrice: BigInt(order.startPrice),
+    endPrice: BigInt(order.endPrice),
+    startTime: BigInt(order.startTime),
+    endTime: BigInt(order.endTime),
+    auctionCurve: order.auctionCurve,
+    auctionPoints: order.auctionPoints.map((point) => ({
+      delay: BigInt(point.delay),
+      price: BigInt(point.price),
+    })),
+    hashlock: order.hashlock as Hex,
+  }
+}
+
+/**
+ * Verify an order signature
+ * @param order Order to verify
+ * @returns Boolean indicating if signature is valid
+ */
+export async function verifyOrderSignature(order: OffchainOrder): Promise<boolean> {
+  try {
+    // Extract the order data without the signature
+    const { signature, ...orderData } = order
+
+    // Recover the signer address
+    const recoveredAddress = await recoverTypedDataAddress({
+      domain: EIP712_DOMAIN,
+      types: EIP712_TYPES,
+      primaryType: "Order",
+      message: orderMessage(orderData),
+      signature: signature as Hex,
+    })
+
+    // Compare with the maker address
+    return recoveredAddress.toLowerCase() === order.maker.toLowerCase()
+  } catch (error) {
+    console.error("Error verifying signature:", error)
+    return false
+  }
+}
+
+/**
+ * Validate and normalize the maker and receiver of an order
+ *
+ * The maker signs on Etherlink; the receiver is paid out on the target chain.
+ * @param order Order as signed
+ * @returns The order with normalized addresses
+ * @throws Error if the chains are unsupported or an address is of the wrong kind
+ */
+export function normalizeOrderAddresses(order: OffchainOrder): OffchainOrder {
+  let targetChain: ChainName
+  if (order.sourceChainId === config.etherlinkChainId) {
+    targetChain = "Aptos"
+  } else if (order.targetChainId === config.etherlinkChainId) {
+    targetChain = "Etherlink"
+  } else {
+    throw new Error("Unsupported chain combination")
+  }
+  return {
+    ...order,
+    maker: parseChainAddress("Etherlink", order.maker, "Order maker"),
+    receiver: parseChainAddress(targetChain, order.receiver, "Order receiver"),
+  }
+}
+
+// Fields of an order with their JSON types
+const ORDER_FIELDS: Record<keyof OffchainOrder, "string" | "number" | "array"> = {
+  maker: "string",
+  sourceChainId: "number",
+  targetChainId: "number",
+  sourceToken: "string",
+  targetToken: "string",
+  amount: "string",
+  minReturn: "string",
+  receiver: "string",
+  deadline: "number",
+  nonce: "string",
+  startPrice: "string",
+  endPrice: "string",
+  startTime: "number",
+  endTime: "number",
+  auctionCurve: "string",
+  auctionPoints: "array",
+  hashlock: "string",
+  signature: "string",
+}
+
+const BYTES32 = /^0x[0-9a-fA-F]{64}$/
+
+// Fields holding uint256 values as decimal strings
+const UINT_FIELDS = [
+  "amount",
+  "minReturn",
+  "nonce",
+  "startPrice",
+  "endPrice",
+] as const
+
+/**
+ * Check that a decoded JSON value has the shape of an order
+ *
+ * Only the shape is checked; the signature, deadline and addresses are not.
+ * @param value Decoded JSON, e.g. a request body
+ * @returns The order with exactly the order fields
+ * @throws Error listing every missing or mistyped field
+ */
+export function parseOrder(value: unknown): OffchainOrder {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error("Order must be a JSON object")
+  }
+  const fields = value as Record<string, unknown>
+  const problems: string[] = []
+  const order: Record<string, unknown> = {}
+  for (const [key, type] of Object.entries(ORDER_FIELDS)) {
+    const field = fields[key]
+    if (type === "array" ? !Array.isArray(field) : typeof field !== type) {
+      problems.push(`${key} must be ${type === "array" ? "an" : "a"} ${type}`)
+    } else if (type === "number" && !Number.isSafeInteger(field)) {
+      problems.push(`${key} must be an integer`)
+    }
+    order[key] = field
+  }
+  for (const key of UINT_FIELDS) {
+    if (typeof fields[key] === "string" && !/^\d+$/.test(fields[key] as string)) {
+      problems.push(`${key} must be a decimal integer string`)
+    }
+  }
+  if (Array.isArray(fields.auctionPoints)) {
+    order.auctionPoints = fields.auctionPoints.map((point: unknown, index) => {
+      const { delay, price } = (point ?? {}) as Record<string, unknown>
+      const validPrice = typeof price === "string" && /^\d+$/.test(price)
+      if (!Number.isSafeInteger(delay) || !validPrice) {
+        problems.push(
+          `auctionPoints[${index}] must have an integer delay and a decimal integer string price`
+        )
+      }
+      return { delay, price }
+    })
+  }
+  if (typeof fields.hashlock === "string" && !BYTES32.test(fields.hashlock)) {
+    problems.push("hashlock must be a 32-byte hex string")
+  }
+  if (problems.length > 0) {
+    throw new Error(`Invalid order: ${problems.join(", ")}`)
+  }
+  return order as unknown as OffchainOrder
+}
+
+/**
+ * Key identifying an order; a maker never reuses a nonce
+ */
+export function orderKey(order: OffchainOrder): string {
+  return `${order.maker.toLowerCase()}-${order.nonce}`
+}
+
+// Chain pair an order book query or subscription is restricted to
+export interface OrderFilter {
+  sourceChainId?: number
+  targetChainId?: number
+}
+
+/**
+ * Check an order is for the filter's chain pair
+ */
+export function matchesOrderFilter(
+  order: OffchainOrder,
+  filter: OrderFilter
+): boolean {
+  return (
+    (filter.sourceChainId === undefined ||
+      order.sourceChainId === filter.sourceChainId) &&
+    (filter.targetChainId === undefined ||
+      order.targetChainId === filter.targetChainId)
+  )
+}
+
+/**
+ * Hashlock of the maker's secret, for orders where the maker holds it
+ *
+ * Both HTLCs hash the secret with keccak256, so the one signed hashlock
+ * locks both legs and each can be checked against it without the secret.
+ * @returns The hashlock, or undefined when the order has none
+ */
+export function orderHashlock(order: OffchainOrder): Hex | undefined {
+  const hashlock = order.hashlock.toLowerCase() as Hex
+  return hashlock === zeroHash ? undefined : hashlock
+}
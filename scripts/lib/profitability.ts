@@ -0,0 +1,234 @@
+import { AptosClient } from "aptos"
+import { Address, formatEther, parseEther } from "viem"
+import { config } from "../../config"
+import { AuctionParams, auctionPrice } from "./auction"
+import { EtherlinkClient } from "./etherlink"
+import { SolverAction } from "./swap_store"
+
+// Gas of an UnrealToken `approve`, paid when the allowance falls short
+const APPROVE_GAS = 60000n
+
+// Gas of `UnrealHTLC.initiateSwap`
+const INITIATE_SWAP_GAS = 300000n
+
+// Gas units of `unreal_htlc::withdraw` on Aptos
+const APTOS_WITHDRAW_GAS_UNITS = 2000n
+
+const OCTAS_PER_APT = 10n ** 8n
+const BASIS_POINTS = 10000n
+const SECONDS_PER_YEAR = 365n * 24n * 60n * 60n
+
+// What the solver values its inputs at, in wei
+export interface SolverPricing {
+  // Value of one whole UNREAL
+  unrealPrice: bigint
+  // Value of one APT
+  aptPrice: bigint
+  // Least profit the solver fills an order for
+  minProfit: bigint
+  // Yearly cost of locked UNREAL, in basis points of its value
+  inventoryRateBps: bigint
+}
+
+// Fields of an order that price its fill, amounts in Etherlink base units
+export interface FillTerms extends AuctionParams {
+  amount: string
+  minReturn: string
+  deadline: number
+}
+
+// What filling an order takes from the solver
+export interface FillPlan {
+  // UNREAL the solver locks in the Etherlink HTLC, in Etherlink base units
+  lockAmount: bigint
+  // Seconds the lock may tie the funds up
+  lockSeconds: number
+  // Whether the solver withdraws the maker's lock on Aptos
+  claimsOnAptos: boolean
+}
+
+// Costs of a fill in wei
+export interface FillCosts {
+  etherlinkGas: bigint
+  aptosGas: bigint
+  inventory: bigint
+}
+
+// Whether and when to fill an order, with the numbers behind it in wei
+export interface FillDecision {
+  action: SolverAction
+  reason: string
+  blockTimestamp: bigint
+  auctionPrice: bigint
+  // UNREAL the solver delivers to the receiver at the block, in Etherlink base units
+  fillAmount: bigint
+  // Value of `amount` minus `fillAmount`, the UNREAL the solver keeps
+  revenue: bigint
+  costs: FillCosts
+  // Revenue minus costs
+  profit: bigint
+  // Earliest block timestamp the fill is profitable at, when the solver waits
+  fillAt?: bigint
+}
+
+/**
+ * Read the solver's pricing from the configuration
+ * @throws Error if the UNREAL or APT price is not configured
+ */
+export function solverPricing(): SolverPricing {
+  if (!config.solverUnrealPrice || !config.solverAptPrice) {
+    throw new Error(
+      "SOLVER_UNREAL_PRICE and SOLVER_APT_PRICE are required to price orders"
+    )
+  }
+  return {
+    unrealPrice: parseEther(config.solverUnrealPrice),
+    aptPrice: parseEther(config.solverAptPrice),
+    minProfit: parseEther(config.solverMinProfit),
+    inventoryRateBps: BigInt(config.solverInventoryRateBps),
+  }
+}
+
+/**
+ * Value of an UNREAL amount in wei
+ * @param amount Amount in Etherlink base units
+ * @param decimals UnrealToken decimals on Etherlink
+ */
+function unrealValue(amount: bigint, decimals: number, pricing: SolverPricing): bigint {
+  return (amount * pricing.unrealPrice) / 10n ** BigInt(decimals)
+}
+
+/**
+ * Estimate what a fill costs at current gas prices
+ *
+ * Etherlink gas covers `initiateSwap` plus an `approve` when the HTLC's
+ * allowance does not cover the lock. Aptos gas covers the `withdraw`
+ * of the maker's lock, converted at the APT price. The inventory cost is the
+ * yearly rate on the locked UNREAL for as long as the lock may run.
+ * @param client Etherlink client of the solver
+ * @param aptosClient Aptos client
+ * @param plan What the fill takes
+ * @param pricing Solver pricing
+ * @param decimals UnrealToken decimals on Etherlink
+ */
+export async function estimateFillCosts(
+  client: EtherlinkClient,
+  aptosClient: AptosClient,
+  plan: FillPlan,
+  pricing: SolverPricing,
+  decimals: number
+): Promise<FillCosts> {
+  const [gasPrice, allowance, aptosGasPrice] = await Promise.all([
+    client.publicClient.getGasPrice(),
+    client.allowance(config.etherlinkHtlcAddress as Address),
+    plan.claimsOnAptos
+      ? aptosClient.estimateGasPrice().then(({ gas_estimate }) => BigInt(gas_estimate))
+      : 0n,
+  ])
+
+  const gas = INITIATE_SWAP_GAS + (allowance < plan.lockAmount ? APPROVE_GAS : 0n)
+  const octas = APTOS_WITHDRAW_GAS_UNITS * aptosGasPrice
+  const lockedValue = unrealValue(plan.lockAmount, decimals, pricing)
+  return {
+    etherlinkGas: gas * gasPrice,
+    aptosGas: (octas * pricing.aptPrice) / OCTAS_PER_APT,
+    inventory:
+      (lockedValue * pricing.inventoryRateBps * BigInt(plan.lockSeconds)) /
+      (BASIS_POINTS * SECONDS_PER_YEAR),
+  }
+}
+
+/**
+ * Amount the solver delivers to the receiver at a block timestamp
+ *
+ * The auction price sets the order's return: at `startPrice` the solver
+ * delivers the whole `amount`, at `endPrice` only `minReturn`, and in between
+ * in proportion, so the delivered amount follows the order's curve.
+ * @param order Auction and amounts of the order
+ * @param timestamp Block timestamp in seconds
+ * @returns Amount in Etherlink base units
+ * @throws Error if the auction is invalid
+ */
+export function fillAmount(order: FillTerms, timestamp: bigint): bigint {
+  const amount = BigInt(order.amount)
+  const minReturn = BigInt(order.minReturn)
+  const startPrice = BigInt(order.startPrice)
+  const endPrice = BigInt(order.endPrice)
+  const price = auctionPrice(order, timestamp)
+  if (startPrice === endPrice) {
+    return minReturn
+  }
+  return minReturn + ((amount - minReturn) * (price - endPrice)) / (startPrice - endPrice)
+}
+
+/**
+ * Decide whether to fill an order now, later or not at all
+ *
+ * The solver keeps `amount` minus what it delivers, which grows as the
+ * auction price falls, so profit only grows: the earliest profitable block
+ * timestamp is found by bisection, up to the end of the auction or the order
+ * deadline, whichever comes first. Costs are taken as estimated now.
+ * @param order Auction, amounts and deadline of the order
+ * @param timestamp Timestamp of the latest Etherlink block
+ * @param plan What the fill takes
+ * @param costs Estimated costs of the fill
+ * @param pricing Solver pricing
+ * @param decimals UnrealToken decimals on Etherlink
+ */
+export function decideFill(
+  order: FillTerms,
+  timestamp: bigint,
+  plan: FillPlan,
+  costs: FillCosts,
+  pricing: SolverPricing,
+  decimals: number
+): FillDecision {
+  const totalCost = costs.etherlinkGas + costs.aptosGas + costs.inventory
+  const revenueAt = (time: bigint) =>
+    unrealValue(BigInt(order.amount) - fillAmount(order, time), decimals, pricing)
+  const profitAt = (time: bigint) => revenueAt(time) - totalCost
+  const decision = (action: SolverAction, reason: string, fillAt?: bigint) => ({
+    action,
+    reason,
+    blockTimestamp: timestamp,
+    auctionPrice: auctionPrice(order, timestamp),
+    fillAmount: fillAmount(order, timestamp),
+    revenue: revenueAt(timestamp),
+    costs,
+    profit: profitAt(timestamp),
+    fillAt,
+  })
+
+  if (BigInt(order.minReturn) > BigInt(order.amount)) {
+    return decision("skip", "the order returns more UNREAL than it pays in")
+  }
+  if (profitAt(timestamp) >= pricing.minProfit) {
+    return decision("fill", "profitable at the current auction price")
+  }
+
+  const deadline = BigInt(order.deadline)
+  const end = BigInt(order.endTime) < deadline ? BigInt(order.endTime) : deadline
+  if (end <= timestamp || profitAt(end) < pricing.minProfit) {
+    return decision(
+      "skip",
+      `never profitable before the order closes: at most ${formatEther(profitAt(end))} ETH`
+    )
+  }
+
+  // profitAt(low) falls short of the minimum, profitAt(high) meets it
+  let low = timestamp
+  let high = end
+  while (high - low > 1n) {
+    const middle = (low + high) / 2n
+    if (profitAt(middle) >= pricing.minProfit) {
+      high = middle
+    } else {
+      low = middle
+    }
+  }
+  return decision(
+    "wait",
+    `profitable from block timestamp ${high}, delivering ${fillAmount(order, high)} base units`,
+    high
+  )
+}
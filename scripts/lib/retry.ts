@@ -0,0 +1,48 @@
+// Retry policy for flaky RPC calls
+export interface RetryOptions {
+  // Total attempts, including the first
+  attempts: number
+  // Delay before the first retry in milliseconds; doubled after each failure
+  baseDelayMs: number
+}
+
+export const DEFAULT_RETRY: RetryOptions = {
+  attempts: 4,
+  baseDelayMs: 1000,
+}
+
+/**
+ * Wait for a number of milliseconds
+ */
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+/**
+ * Run an async call, retrying with exponential backoff when it throws
+ * @param fn The call
+ * @param label Description used in log messages
+ * @param options Attempts and initial delay
+ * @throws The last error once every attempt failed
+ */
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  label: string,
+  options: RetryOptions = DEFAULT_RETRY
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn()
+    } catch (error) {
+      if (attempt >= options.attempts) {
+        throw error
+      }
+      const delay = options.baseDelayMs * 2 ** (attempt - 1)
+      console.warn(
+        `${label} failed (attempt ${attempt}/${options.attempts}), retrying in ${delay}ms:`,
+        error instanceof Error ? error.message : error
+      )
+      await sleep(delay)
+    }
+  }
+}
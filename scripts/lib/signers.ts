@@ -0,0 +1,404 @@
+import {
+  AptosAccount,
+  AptosClient,
+  HexString,
+  TransactionBuilderEd25519,
+  TxnBuilderTypes,
+} from "aptos"
+import { execFileSync } from "child_process"
+import * as crypto from "crypto"
+import * as fs from "fs"
+import * as path from "path"
+import {
+  Address,
+  concat,
+  getAddress,
+  hashMessage,
+  hashTypedData,
+  Hex,
+  keccak256,
+  LocalAccount,
+  parseSignature,
+  serializeTransaction,
+} from "viem"
+import {
+  generatePrivateKey,
+  privateKeyToAccount,
+  toAccount,
+} from "viem/accounts"
+import { config } from "../../config"
+
+// CLI flag that replaces the configured signers with throwaway keys, for tests only
+export const EPHEMERAL_FLAG = "--ephemeral"
+
+export type SignerSource =
+  | "key"
+  | "cli-profile"
+  | "keystore"
+  | "command"
+  | "ephemeral"
+
+// Signs Aptos transactions without exposing how the key is held
+export interface AptosSigner {
+  source: SignerSource
+  address(): HexString
+  publicKey(): HexString
+  /**
+   * Sign a raw transaction
+   * @returns BCS serialized signed transaction, ready for `submitTransaction`
+   */
+  signTransaction(rawTxn: TxnBuilderTypes.RawTransaction): Uint8Array
+}
+
+// Key derivation of a Web3 Secret Storage keystore, by `kdf`
+type KeystoreKdf =
+  | {
+      kdf: "scrypt"
+      kdfparams: { dklen: number; salt: string; n: number; r: number; p: number }
+    }
+  | {
+      kdf: "pbkdf2"
+      kdfparams: { dklen: number; salt: string; c: number; prf: string }
+    }
+
+// Encryption parameters of a Web3 Secret Storage keystore
+export type KeystoreCrypto = KeystoreKdf & {
+  cipher: string
+  ciphertext: string
+  cipherparams: { iv: string }
+  mac: string
+}
+
+// Web3 Secret Storage (v3) JSON keystore; geth writes `Crypto` instead of `crypto`
+export interface EvmKeystore {
+  version?: number
+  address?: string
+  crypto?: KeystoreCrypto
+  Crypto?: KeystoreCrypto
+}
+
+// Etherlink account together with where its key came from
+export interface EtherlinkSigner {
+  source: SignerSource
+  account: LocalAccount
+}
+
+let aptosSigner: AptosSigner | undefined
+let etherlinkSigner: EtherlinkSigner | undefined
+
+/**
+ * Whether the process was started with `--ephemeral`
+ */
+export function isEphemeral(argv: string[] = process.argv): boolean {
+  return argv.includes(EPHEMERAL_FLAG)
+}
+
+/**
+ * Run an external signing command
+ *
+ * The command is split on whitespace into the executable and its leading
+ * arguments and run without a shell as `<command> <action>`, with `input` on
+ * stdin. It must print a single hex string on stdout.
+ * @throws Error if the command fails or prints something other than hex
+ */
+function runSignerCommand(command: string, action: string, input = ""): Hex {
+  const [file, ...args] = command.trim().split(/\s+/)
+  let output: string
+  try {
+    output = execFileSync(file, [...args, action], {
+      input,
+      encoding: "utf8",
+      stdio: ["pipe", "pipe", "inherit"],
+    }).trim()
+  } catch (error) {
+    throw new Error(`Signer command failed on "${action}": ${error}`)
+  }
+  if (!/^0x[0-9a-fA-F]+$/.test(output)) {
+    throw new Error(`Signer command printed invalid hex for "${action}"`)
+  }
+  return output as Hex
+}
+
+/**
+ * Aptos signer backed by an in-process key
+ */
+function aptosSignerFromAccount(
+  account: AptosAccount,
+  source: SignerSource
+): AptosSigner {
+  return {
+    source,
+    address: () => account.address(),
+    publicKey: () => account.pubKey(),
+    signTransaction: (rawTxn) =>
+      AptosClient.generateBCSTransaction(account, rawTxn),
+  }
+}
+
+/**
+ * Aptos signer from a raw Ed25519 private key
+ * @param privateKey Hex encoded key, optionally with the AIP-80 `ed25519-priv-` prefix
+ * @param address Account address, when the key was rotated away from the derived address
+ */
+export function aptosSignerFromKey(
+  privateKey: string,
+  address?: string,
+  source: SignerSource = "key"
+): AptosSigner {
+  const privateKeyHex = HexString.ensure(
+    privateKey.replace(/^ed25519-priv-/, "")
+  ).hex()
+  return aptosSignerFromAccount(
+    AptosAccount.fromAptosAccountObject({ privateKeyHex, address }),
+    source
+  )
+}
+
+/**
+ * Read one profile from an Aptos CLI `config.yaml`
+ *
+ * Only the flat `profiles: <name>: <key>: <value>` layout written by `aptos init` is understood.
+ * @param file Path of the config file
+ * @param profile Profile name
+ * @throws Error if the profile does not exist
+ */
+export function readAptosCliProfile(
+  file: string,
+  profile: string
+): Record<string, string> {
+  const lines = fs.readFileSync(path.resolve(file), "utf8").split(/\r?\n/)
+  const values: Record<string, string> = {}
+  let section = ""
+  let current = ""
+
+  for (const line of lines) {
+    const match = /^( *)([\w-]+):\s*(.*?)\s*$/.exec(line)
+    if (!match) {
+      continue
+    }
+    const [, indent, key, rawValue] = match
+    const value = rawValue.replace(/^(["'])(.*)\1$/, "$2")
+    if (indent.length === 0) {
+      section = key
+    } else if (section === "profiles" && indent.length === 2) {
+      current = key
+    } else if (section === "profiles" && current === profile && value) {
+      values[key] = value
+    }
+  }
+
+  if (!values.private_key) {
+    throw new Error(`Aptos CLI profile ${profile} with a private_key not found in ${file}`)
+  }
+  return values
+}
+
+/**
+ * Aptos signer that delegates to an external command
+ *
+ * `<command> public-key` prints the Ed25519 public key; `<command> sign` reads the hex
+ * signing message on stdin and prints the Ed25519 signature.
+ * @param command Executable with optional arguments, e.g. a wrapper around an HSM or a remote signer
+ */
+export function aptosSignerFromCommand(command: string): AptosSigner {
+  const publicKey = HexString.ensure(runSignerCommand(command, "public-key"))
+  const address = TxnBuilderTypes.AuthenticationKey.fromEd25519PublicKey(
+    new TxnBuilderTypes.Ed25519PublicKey(publicKey.toUint8Array())
+  ).derivedAddress()
+
+  const sign = (message: Uint8Array) => {
+    const signature = runSignerCommand(
+      command,
+      "sign",
+      HexString.fromUint8Array(message).hex()
+    )
+    return new TxnBuilderTypes.Ed25519Signature(
+      HexString.ensure(signature).toUint8Array()
+    )
+  }
+  const builder = new TransactionBuilderEd25519(sign, publicKey.toUint8Array())
+
+  return {
+    source: "command",
+    address: () => address,
+    publicKey: () => publicKey,
+    signTransaction: (rawTxn) => builder.sign(rawTxn),
+  }
+}
+
+/**
+ * Decrypt a Web3 Secret Storage (v3) JSON keystore
+ * @param keystore Parsed keystore file
+ * @param password Keystore password
+ * @returns Hex encoded private key
+ * @throws Error on an unsupported format or a wrong password
+ */
+export function decryptEvmKeystore(keystore: EvmKeystore, password: string): Hex {
+  const params = keystore.crypto ?? keystore.Crypto
+  if (!params || params.cipher !== "aes-128-ctr") {
+    throw new Error("Unsupported keystore: expected an aes-128-ctr v3 keystore")
+  }
+
+  const salt = Buffer.from(params.kdfparams.salt, "hex")
+  let derivedKey: Buffer
+  if (params.kdf === "scrypt") {
+    const kdf = params.kdfparams
+    try {
+      derivedKey = crypto.scryptSync(password, salt, kdf.dklen, {
+        N: kdf.n,
+        r: kdf.r,
+        p: kdf.p,
+        maxmem: 128 * kdf.n * kdf.r * kdf.p + 1024 * 1024,
+      })
+    } catch (error) {
+      // OpenSSL enforces RFC 7914's N < 2^(16 * r), which geth and Foundry keystores satisfy
+      throw new Error(
+        `Unsupported keystore scrypt parameters n=${kdf.n} r=${kdf.r} p=${kdf.p}: ${error}`
+      )
+    }
+  } else if (params.kdf === "pbkdf2" && params.kdfparams.prf === "hmac-sha256") {
+    const kdf = params.kdfparams
+    derivedKey = crypto.pbkdf2Sync(password, salt, kdf.c, kdf.dklen, "sha256")
+  } else {
+    throw new Error(`Unsupported keystore key derivation: ${params.kdf}`)
+  }
+
+  const ciphertext = Buffer.from(params.ciphertext, "hex")
+  const mac = keccak256(concat([derivedKey.subarray(16, 32), ciphertext]))
+  if (mac.slice(2) !== String(params.mac).toLowerCase()) {
+    throw new Error("Wrong keystore password")
+  }
+
+  const decipher = crypto.createDecipheriv(
+    "aes-128-ctr",
+    derivedKey.subarray(0, 16),
+    Buffer.from(params.cipherparams.iv, "hex")
+  )
+  const privateKey = Buffer.concat([
+    decipher.update(ciphertext),
+    decipher.final(),
+  ])
+  return `0x${privateKey.toString("hex")}`
+}
+
+/**
+ * Etherlink account from a raw private key
+ * @param privateKey Hex encoded key, with or without 0x prefix
+ */
+export function etherlinkAccountFromKey(privateKey: string): LocalAccount {
+  const key = (privateKey.startsWith("0x") ? privateKey : `0x${privateKey}`) as Hex
+  // No viem nonce manager: etherlink_tx hands out nonces for every send
+  return privateKeyToAccount(key)
+}
+
+/**
+ * Etherlink account that delegates signing to an external command
+ *
+ * `<command> address` prints the account address; `<command> sign-hash` reads a 32-byte
+ * hex digest on stdin and prints a 65-byte secp256k1 signature. Transactions, messages
+ * and typed data are hashed locally, so the command only ever signs digests.
+ * @param command Executable with optional arguments, e.g. a wrapper around an HSM or a remote signer
+ */
+export function etherlinkAccountFromCommand(command: string): LocalAccount {
+  const address: Address = getAddress(runSignerCommand(command, "address"))
+  const signHash = async (hash: Hex) =>
+    runSignerCommand(command, "sign-hash", hash)
+
+  return toAccount({
+    address,
+    signMessage: ({ message }) => signHash(hashMessage(message)),
+    signTypedData: (typedData) => signHash(hashTypedData(typedData)),
+    async signTransaction(transaction, options) {
+      const serializer = options?.serializer ?? serializeTransaction
+      const signature = await signHash(keccak256(await serializer(transaction)))
+      return serializer(transaction, parseSignature(signature))
+    },
+  })
+}
+
+/**
+ * The Aptos signer for this process, resolved from config on first use
+ * @throws Error if no signer is configured and `--ephemeral` was not passed, or the key is invalid
+ */
+export function getAptosSigner(): AptosSigner {
+  if (aptosSigner) {
+    return aptosSigner
+  }
+
+  if (isEphemeral()) {
+    aptosSigner = aptosSignerFromAccount(new AptosAccount(), "ephemeral")
+    console.warn(
+      `WARNING: using ephemeral Aptos account ${aptosSigner.address()}; it is unfunded and discarded on exit`
+    )
+  } else if (config.aptosPrivateKey) {
+    aptosSigner = aptosSignerFromKey(config.aptosPrivateKey)
+  } else if (config.aptosCliProfile) {
+    const profile = readAptosCliProfile(
+      config.aptosCliConfigPath,
+      config.aptosCliProfile
+    )
+    aptosSigner = aptosSignerFromKey(
+      profile.private_key,
+      profile.account,
+      "cli-profile"
+    )
+  } else if (config.aptosSignerCommand) {
+    aptosSigner = aptosSignerFromCommand(config.aptosSignerCommand)
+  } else {
+    throw new Error(
+      `No Aptos signer configured: set APTOS_PRIVATE_KEY, APTOS_CLI_PROFILE or APTOS_SIGNER_COMMAND (or pass ${EPHEMERAL_FLAG} in tests)`
+    )
+  }
+
+  console.log(`Using Aptos account ${aptosSigner.address()} (${aptosSigner.source})`)
+  return aptosSigner
+}
+
+/**
+ * The Etherlink signer for this process, resolved from config on first use
+ * @throws Error if no signer is configured and `--ephemeral` was not passed, or the key is invalid
+ */
+export function getEtherlinkSigner(): EtherlinkSigner {
+  if (etherlinkSigner) {
+    return etherlinkSigner
+  }
+
+  if (isEphemeral()) {
+    etherlinkSigner = {
+      source: "ephemeral",
+      account: etherlinkAccountFromKey(generatePrivateKey()),
+    }
+    console.warn(
+      `WARNING: using ephemeral Etherlink account ${etherlinkSigner.account.address}; it is unfunded and discarded on exit`
+    )
+  } else if (config.etherlinkPrivateKey) {
+    etherlinkSigner = {
+      source: "key",
+      account: etherlinkAccountFromKey(config.etherlinkPrivateKey),
+    }
+  } else if (config.etherlinkKeystorePath) {
+    const keystore: EvmKeystore = JSON.parse(
+      fs.readFileSync(path.resolve(config.etherlinkKeystorePath), "utf8")
+    )
+    etherlinkSigner = {
+      source: "keystore",
+      account: etherlinkAccountFromKey(
+        decryptEvmKeystore(keystore, config.etherlinkKeystorePassword)
+      ),
+    }
+  } else if (config.etherlinkSignerCommand) {
+    etherlinkSigner = {
+      source: "command",
+      account: etherlinkAccountFromCommand(config.etherlinkSignerCommand),
+    }
+  } else {
+    throw new Error(
+      `No Etherlink signer configured: set ETHERLINK_PRIVATE_KEY, ETHERLINK_KEYSTORE or ETHERLINK_SIGNER_COMMAND (or pass ${EPHEMERAL_FLAG} in tests)`
+    )
+  }
+
+  console.log(
+    `Using Etherlink account ${etherlinkSigner.account.address} (${etherlinkSigner.source})`
+  )
+  return etherlinkSigner
+}
@@ -0,0 +1,97 @@
+// Lifecycle of a cross-chain swap, from the source lock to its final claim or refund
+export type SwapStatus =
+  // The initiator locked funds on the source chain
+  | "source_locked"
+  // The counterparty locked funds on the destination chain under the same secret
+  | "destination_locked"
+  // The preimage was revealed on either chain
+  | "secret_revealed"
+  // The receiver was paid out on the destination chain
+  | "destination_claimed"
+  // The counterparty withdrew the source lock, settling the swap
+  | "source_claimed"
+  // The source lock was returned to its sender
+  | "refunded"
+  // The source timelock passed without a claim; only a refund remains
+  | "expired"
+
+export const SWAP_STATUSES: readonly SwapStatus[] = [
+  "source_locked",
+  "destination_locked",
+  "secret_revealed",
+  "destination_claimed",
+  "source_claimed",
+  "refunded",
+  "expired",
+]
+
+// Statuses each status may move to; anything else is rejected
+const TRANSITIONS: Record<SwapStatus, readonly SwapStatus[]> = {
+  source_locked: [
+    "destination_locked",
+    "secret_revealed",
+    "destination_claimed",
+    "source_claimed",
+    "refunded",
+    "expired",
+  ],
+  destination_locked: [
+    "secret_revealed",
+    "destination_claimed",
+    "source_claimed",
+    "refunded",
+    "expired",
+  ],
+  secret_revealed: [
+    "destination_claimed",
+    "source_claimed",
+    "refunded",
+    "expired",
+  ],
+  // The secret is public now, so the source lock is claimed next
+  destination_claimed: ["source_claimed"],
+  source_claimed: [],
+  refunded: [],
+  expired: ["refunded"],
+}
+
+// Swaps whose destination leg may still be paid out
+export const COMPLETABLE_STATUSES: readonly SwapStatus[] = [
+  "source_locked",
+  "destination_locked",
+  "secret_revealed",
+]
+
+// Swaps whose source lock may still be refunded once its timelock passes
+export const REFUNDABLE_STATUSES: readonly SwapStatus[] = [
+  "source_locked",
+  "destination_locked",
+  "secret_revealed",
+  "expired",
+]
+
+/**
+ * Check whether a swap may move between two statuses
+ * @param from Current status
+ * @param to Requested status
+ */
+export function canTransition(from: SwapStatus, to: SwapStatus): boolean {
+  return TRANSITIONS[from].includes(to)
+}
+
+/**
+ * Refuse an illegal transition, e.g. before sending the transaction that would cause it
+ * @param swap Swap ID and current status
+ * @param to Requested status
+ * @throws Error if the swap cannot move to `to`
+ */
+export function assertTransition(
+  swap: { id: string; status: SwapStatus },
+  to: SwapStatus
+): void {
+  if (!canTransition(swap.status, to)) {
+    throw new Error(
+      `Illegal swap transition for ${swap.id}: ${swap.status} -> ${to}`
+    )
+  }
+}
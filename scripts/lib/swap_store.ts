@@ -0,0 +1,697 @@
+import { Database } from "bun:sqlite"
+import * as crypto from "crypto"
+import * as fs from "fs"
+import * as path from "path"
+import { config } from "../../config"
+import { ChainName } from "./hashlock"
+import { assertTransition, SwapStatus } from "./swap_state"
+
+// One side of a swap: the lock or payout on a single chain
+export interface SwapLeg {
+  chain: ChainName
+  // Lock or swap ID on this chain, when the leg is an HTLC lock
+  lockId?: string
+  sender?: string
+  recipient?: string
+  // Amount in the chain's base units
+  amount?: string
+  hashlock?: string
+  // Absolute expiry in seconds
+  endtime?: number
+  initTx?: string
+  claimTx?: string
+  refundTx?: string
+}
+
+export interface SwapRecord {
+  // Lock ID on the source chain
+  id: string
+  sourceChain: ChainName
+  targetChain: ChainName
+  status: SwapStatus
+  // Hashlock of the source chain lock
+  secretHash: string
+  // Decrypted preimage, when this process generated or learned it
+  secret?: string
+  amount: string // Human readable UNREAL amount
+  sender: string
+  receiver: string
+  legs: Partial<Record<ChainName, SwapLeg>>
+  // Free-form details such as solver fees, kept as JSON
+  metadata: Record<string, unknown>
+  createdAt: number
+  updatedAt: number
+}
+
+export type NewSwap = Omit<SwapRecord, "createdAt" | "updatedAt" | "legs"> & {
+  legs?: SwapLeg[]
+  createdAt?: number
+}
+
+export interface SwapPatch {
+  secret?: string
+  // Fields merged into the existing leg of each chain, creating it if needed
+  legs?: Partial<Record<ChainName, Partial<Omit<SwapLeg, "chain">>>>
+  // Keys merged into the existing metadata
+  metadata?: Record<string, unknown>
+}
+
+export interface SwapFilter {
+  status?: SwapStatus | readonly SwapStatus[]
+  sourceChain?: ChainName
+  targetChain?: ChainName
+  // Matches the source hashlock or the hashlock of either leg
+  hashlock?: string
+  // Matches the swap ID or the lock ID of either leg
+  lockId?: string
+  // Only swaps changed at or after this time, in milliseconds
+  updatedSince?: number
+}
+
+// A recorded status change
+export interface SwapTransition {
+  // Null for the status a swap was recorded with
+  from: SwapStatus | null
+  to: SwapStatus
+  // What caused the change, e.g. the chain event or command
+  reason: string
+  at: number
+}
+
+// Whether a solver fills an order now, waits for the auction price to fall or skips it
+export type SolverAction = "fill" | "wait" | "skip"
+
+// A solver's decision on an order, kept to tune its strategy
+export interface SolverDecision {
+  orderKey: string
+  action: SolverAction
+  reason: string
+  // Etherlink block timestamp the order was priced at, in seconds
+  blockTimestamp: number
+  // Prices, costs and profit behind the decision, e.g. in wei
+  details: Record<string, string>
+  at: number
+}
+
+// Transactional store for swaps, revealed preimages, chain cursors and solver decisions
+export interface SwapStore {
+  file: string
+  // Insert a swap unless one with the same ID exists; returns whether it was inserted
+  insertSwap(swap: NewSwap, reason: string): boolean
+  getSwap(id: string): SwapRecord | undefined
+  findSwaps(filter?: SwapFilter): SwapRecord[]
+  // Apply a patch that leaves the status unchanged and return the updated swap
+  updateSwap(id: string, patch: SwapPatch): SwapRecord
+  // Move a swap to a new status, rejecting illegal transitions, and record it;
+  // a swap already in `to` only gets the patch
+  transitionSwap(
+    id: string,
+    to: SwapStatus,
+    reason: string,
+    patch?: SwapPatch
+  ): SwapRecord
+  getTransitions(id: string): SwapTransition[]
+  // Index a preimage under each of its hashlocks; returns whether any was new
+  recordPreimage(
+    secret: string,
+    hashlocks: string[],
+    origin: string
+  ): boolean
+  findPreimage(hashlock: string): string | undefined
+  getCursor<T>(name: string): T | undefined
+  setCursor(name: string, value: unknown): void
+  recordDecision(decision: Omit<SolverDecision, "at">): void
+  // The latest decisions, oldest first, optionally for one order
+  getDecisions(orderKey?: string, limit?: number): SolverDecision[]
+  // Run `fn` in one SQLite transaction, rolled back if it throws
+  transaction<T>(fn: () => T): T
+  close(): void
+}
+
+// Schema versions, applied in order and tracked in `PRAGMA user_version`
+const MIGRATIONS = [
+  `
+  CREATE TABLE swaps (
+    id TEXT PRIMARY KEY,
+    source_chain TEXT NOT NULL,
+    target_chain TEXT NOT NULL,
+    status TEXT NOT NULL,
+    secret_hash TEXT NOT NULL,
+    encrypted_secret TEXT,
+    amount TEXT NOT NULL,
+    sender TEXT NOT NULL,
+    receiver TEXT NOT NULL,
+    metadata TEXT NOT NULL DEFAULT '{}',
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE INDEX swaps_status ON swaps (status, source_chain);
+  CREATE INDEX swaps_secret_hash ON swaps (secret_hash);
+
+  CREATE TABLE swap_legs (
+    swap_id TEXT NOT NULL REFERENCES swaps (id) ON DELETE CASCADE,
+    chain TEXT NOT NULL,
+    lock_id TEXT,
+    sender TEXT,
+    recipient TEXT,
+    amount TEXT,
+    hashlock TEXT,
+    endtime INTEGER,
+    init_tx TEXT,
+    claim_tx TEXT,
+    refund_tx TEXT,
+    PRIMARY KEY (swap_id, chain)
+  );
+  CREATE INDEX swap_legs_hashlock ON swap_legs (hashlock);
+
+  CREATE TABLE preimages (
+    hashlock TEXT PRIMARY KEY,
+    encrypted_secret TEXT NOT NULL,
+    origin TEXT NOT NULL,
+    learned_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE cursors (
+    name TEXT PRIMARY KEY,
+    value TEXT NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+  `,
+  `
+  CREATE TABLE swap_transitions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    swap_id TEXT NOT NULL REFERENCES swaps (id) ON DELETE CASCADE,
+    from_status TEXT,
+    to_status TEXT NOT NULL,
+    reason TEXT NOT NULL,
+    at INTEGER NOT NULL
+  );
+  CREATE INDEX swap_transitions_swap ON swap_transitions (swap_id, id);
+
+  UPDATE swaps SET status = 'source_locked' WHERE status = 'initiated';
+  UPDATE swaps SET status = 'destination_claimed' WHERE status = 'completed';
+  INSERT INTO swap_transitions (swap_id, from_status, to_status, reason, at)
+    SELECT id, NULL, status, 'migrated from untyped status', updated_at FROM swaps;
+  `,
+  `
+  CREATE TABLE solver_decisions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    order_key TEXT NOT NULL,
+    action TEXT NOT NULL,
+    reason TEXT NOT NULL,
+    block_timestamp INTEGER NOT NULL,
+    details TEXT NOT NULL DEFAULT '{}',
+    at INTEGER NOT NULL
+  );
+  CREATE INDEX solver_decisions_order ON solver_decisions (order_key, id);
+  `,
+]
+
+interface SwapRow {
+  id: string
+  source_chain: ChainName
+  target_chain: ChainName
+  status: SwapStatus
+  secret_hash: string
+  encrypted_secret: string | null
+  amount: string
+  sender: string
+  receiver: string
+  metadata: string
+  created_at: number
+  updated_at: number
+}
+
+interface LegRow {
+  swap_id: string
+  chain: ChainName
+  lock_id: string | null
+  sender: string | null
+  recipient: string | null
+  amount: string | null
+  hashlock: string | null
+  endtime: number | null
+  init_tx: string | null
+  claim_tx: string | null
+  refund_tx: string | null
+}
+
+// Leg fields stored in columns of `swap_legs`
+type LegField = Exclude<keyof SwapLeg, "chain">
+
+// Leg fields and their columns
+const LEG_COLUMNS = {
+  lockId: "lock_id",
+  sender: "sender",
+  recipient: "recipient",
+  amount: "amount",
+  hashlock: "hashlock",
+  endtime: "endtime",
+  initTx: "init_tx",
+  claimTx: "claim_tx",
+  refundTx: "refund_tx",
+} as const satisfies Record<LegField, keyof LegRow>
+
+const LEG_FIELDS = Object.keys(LEG_COLUMNS) as LegField[]
+
+const HEX_32_BYTES = /^(0x)?[0-9a-fA-F]{64}$/
+
+let store: SwapStore | undefined
+
+/**
+ * Resolve the key encrypting stored secrets
+ *
+ * Uses SWAP_STORE_KEY when set, otherwise a key file next to the database
+ * that is created with owner-only permissions on first use.
+ * @param file Path of the database
+ * @param configuredKey Hex encoded 32-byte key, or empty
+ */
+function loadSecretKey(file: string, configuredKey: string): Buffer {
+  if (configuredKey) {
+    return Buffer.from(configuredKey.replace(/^0x/, ""), "hex")
+  }
+
+  const keyFile = `${file}.key`
+  if (!fs.existsSync(keyFile)) {
+    fs.writeFileSync(keyFile, crypto.randomBytes(32).toString("hex"), {
+      mode: 0o600,
+      flag: "wx",
+    })
+    console.log(`Created swap store key ${keyFile}`)
+  }
+  const key = fs.readFileSync(keyFile, "utf8").trim()
+  if (!HEX_32_BYTES.test(key)) {
+    throw new Error(`Swap store key file ${keyFile} must hold a 32-byte hex key`)
+  }
+  return Buffer.from(key.replace(/^0x/, ""), "hex")
+}
+
+/**
+ * Encrypt a secret with AES-256-GCM
+ * @returns `iv:tag:ciphertext`, hex encoded
+ */
+function encryptSecret(key: Buffer, secret: string): string {
+  const iv = crypto.randomBytes(12)
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv)
+  const ciphertext = Buffer.concat([cipher.update(secret, "utf8"), cipher.final()])
+  return [iv, cipher.getAuthTag(), ciphertext]
+    .map((part) => part.toString("hex"))
+    .join(":")
+}
+
+/**
+ * Decrypt a secret written by `encryptSecret`
+ * @throws Error if the key does not match the one the secret was stored with
+ */
+function decryptSecret(key: Buffer, encrypted: string): string {
+  const [iv, tag, ciphertext] = encrypted
+    .split(":")
+    .map((part) => Buffer.from(part, "hex"))
+  const decipher = crypto.createDecipheriv("aes-256-gcm", key, iv)
+  decipher.setAuthTag(tag)
+  try {
+    return Buffer.concat([
+      decipher.update(ciphertext),
+      decipher.final(),
+    ]).toString("utf8")
+  } catch {
+    throw new Error("Cannot decrypt stored secret: wrong swap store key")
+  }
+}
+
+/**
+ * Bring the schema up to date
+ */
+function migrate(db: Database): void {
+  const { user_version: version } = db
+    .query<{ user_version: number }, []>("PRAGMA user_version")
+    .get()!
+  db.transaction(() => {
+    for (let next = version; next < MIGRATIONS.length; next++) {
+      db.exec(MIGRATIONS[next])
+    }
+    db.exec(`PRAGMA user_version = ${MIGRATIONS.length}`)
+  })()
+}
+
+/**
+ * Open a swap store, creating and migrating the database as needed
+ * @param file Path of the SQLite database
+ * @param secretKey Hex encoded 32-byte key for secrets; a key file is used when empty
+ */
+export function openSwapStore(file: string, secretKey = ""): SwapStore {
+  const resolved = path.resolve(file)
+  const key = loadSecretKey(resolved, secretKey)
+  const db = new Database(resolved, { create: true, strict: true })
+
+  // Write-ahead log with full sync, so a commit survives a crash or power loss
+  db.exec("PRAGMA journal_mode = WAL")
+  db.exec("PRAGMA synchronous = FULL")
+  db.exec("PRAGMA foreign_keys = ON")
+  db.exec("PRAGMA busy_timeout = 5000")
+  migrate(db)
+
+  const normalize = (hex: string) => hex.toLowerCase()
+
+  const toRecord = (row: SwapRow): SwapRecord => {
+    const legs: Partial<Record<ChainName, SwapLeg>> = {}
+    const legRows = db
+      .query<LegRow, [string]>("SELECT * FROM swap_legs WHERE swap_id = ?")
+      .all(row.id)
+    for (const legRow of legRows) {
+      const fields: Partial<Record<LegField, string | number>> = {}
+      for (const field of LEG_FIELDS) {
+        const value = legRow[LEG_COLUMNS[field]]
+        if (value !== null) {
+          fields[field] = value
+        }
+      }
+      // Each column holds the type of its field, `endtime` being the only number
+      legs[legRow.chain] = { chain: legRow.chain, ...fields } as SwapLeg
+    }
+
+    return {
+      id: row.id,
+      sourceChain: row.source_chain,
+      targetChain: row.target_chain,
+      status: row.status,
+      secretHash: row.secret_hash,
+      secret: row.encrypted_secret
+        ? decryptSecret(key, row.encrypted_secret)
+        : undefined,
+      amount: row.amount,
+      sender: row.sender,
+      receiver: row.receiver,
+      legs,
+      metadata: JSON.parse(row.metadata),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    }
+  }
+
+  const upsertLeg = (
+    swapId: string,
+    chain: ChainName,
+    fields: Partial<Omit<SwapLeg, "chain">>
+  ) => {
+    const present = LEG_FIELDS.filter((field) => fields[field] !== undefined)
+    const values: Record<string, string | number> = { swap_id: swapId, chain }
+    for (const field of present) {
+      const value = fields[field]!
+      values[LEG_COLUMNS[field]] =
+        field === "hashlock" ? normalize(String(value)) : value
+    }
+    const columns = Object.keys(values)
+    const updates = present.map(
+      (field) => `${LEG_COLUMNS[field]} = excluded.${LEG_COLUMNS[field]}`
+    )
+    db.query(
+      `INSERT INTO swap_legs (${columns.join(", ")})
+       VALUES (${columns.map((column) => `$${column}`).join(", ")})
+       ON CONFLICT (swap_id, chain) DO ${
+         updates.length > 0 ? `UPDATE SET ${updates.join(", ")}` : "NOTHING"
+       }`
+    ).run(values)
+  }
+
+  const getSwap = (id: string): SwapRecord | undefined => {
+    const row = db
+      .query<SwapRow, [string]>("SELECT * FROM swaps WHERE id = ?")
+      .get(id)
+    return row ? toRecord(row) : undefined
+  }
+
+  const recordTransition = (
+    swapId: string,
+    from: SwapStatus | null,
+    to: SwapStatus,
+    reason: string
+  ) => {
+    db.query(
+      `INSERT INTO swap_transitions (swap_id, from_status, to_status, reason, at)
+       VALUES ($swap_id, $from_status, $to_status, $reason, $at)`
+    ).run({
+      swap_id: swapId,
+      from_status: from,
+      to_status: to,
+      reason,
+      at: Date.now(),
+    })
+  }
+
+  const applyPatch = (
+    existing: SwapRow,
+    status: SwapStatus,
+    patch: SwapPatch
+  ) => {
+    db.query(
+      `UPDATE swaps SET status = $status, encrypted_secret = $encrypted_secret,
+         metadata = $metadata, updated_at = $updated_at
+       WHERE id = $id`
+    ).run({
+      id: existing.id,
+      status,
+      encrypted_secret: patch.secret
+        ? encryptSecret(key, patch.secret)
+        : existing.encrypted_secret,
+      metadata: JSON.stringify({
+        ...JSON.parse(existing.metadata),
+        ...patch.metadata,
+      }),
+      updated_at: Date.now(),
+    })
+    for (const [chain, fields] of Object.entries(patch.legs ?? {})) {
+      upsertLeg(existing.id, chain as ChainName, fields)
+    }
+  }
+
+  const getRow = (id: string): SwapRow => {
+    const row = db
+      .query<SwapRow, [string]>("SELECT * FROM swaps WHERE id = ?")
+      .get(id)
+    if (!row) {
+      throw new Error(`Swap ${id} not found in ${resolved}`)
+    }
+    return row
+  }
+
+  return {
+    file: resolved,
+
+    insertSwap(swap, reason) {
+      return db.transaction(() => {
+        const now = Date.now()
+        const { changes } = db
+          .query(
+            `INSERT INTO swaps (id, source_chain, target_chain, status, secret_hash,
+               encrypted_secret, amount, sender, receiver, metadata, created_at, updated_at)
+             VALUES ($id, $source_chain, $target_chain, $status, $secret_hash,
+               $encrypted_secret, $amount, $sender, $receiver, $metadata, $created_at, $updated_at)
+             ON CONFLICT (id) DO NOTHING`
+          )
+          .run({
+            id: swap.id,
+            source_chain: swap.sourceChain,
+            target_chain: swap.targetChain,
+            status: swap.status,
+            secret_hash: normalize(swap.secretHash),
+            encrypted_secret: swap.secret ? encryptSecret(key, swap.secret) : null,
+            amount: swap.amount,
+            sender: swap.sender,
+            receiver: swap.receiver,
+            metadata: JSON.stringify(swap.metadata),
+            created_at: swap.createdAt ?? now,
+            updated_at: now,
+          })
+        if (changes === 0) {
+          return false
+        }
+        for (const { chain, ...fields } of swap.legs ?? []) {
+          upsertLeg(swap.id, chain, fields)
+        }
+        recordTransition(swap.id, null, swap.status, reason)
+        return true
+      })()
+    },
+
+    getSwap,
+
+    findSwaps(filter = {}) {
+      const statuses =
+        filter.status === undefined ? null : [filter.status].flat()
+      return db
+        .query<SwapRow, Record<string, string | number | null>>(
+          `SELECT * FROM swaps s
+           WHERE ($statuses IS NULL OR s.status IN (SELECT value FROM json_each($statuses)))
+             AND ($source_chain IS NULL OR s.source_chain = $source_chain)
+             AND ($target_chain IS NULL OR s.target_chain = $target_chain)
+             AND ($hashlock IS NULL OR s.secret_hash = $hashlock OR EXISTS (
+               SELECT 1 FROM swap_legs l WHERE l.swap_id = s.id AND l.hashlock = $hashlock))
+             AND ($lock_id IS NULL OR s.id = $lock_id OR EXISTS (
+               SELECT 1 FROM swap_legs l WHERE l.swap_id = s.id AND l.lock_id = $lock_id))
+             AND ($updated_since IS NULL OR s.updated_at >= $updated_since)
+           ORDER BY s.created_at`
+        )
+        .all({
+          statuses: statuses && JSON.stringify(statuses),
+          source_chain: filter.sourceChain ?? null,
+          target_chain: filter.targetChain ?? null,
+          hashlock: filter.hashlock ? normalize(filter.hashlock) : null,
+          lock_id: filter.lockId ?? null,
+          updated_since: filter.updatedSince ?? null,
+        })
+        .map(toRecord)
+    },
+
+    updateSwap(id, patch) {
+      return db.transaction(() => {
+        const existing = getRow(id)
+        applyPatch(existing, existing.status, patch)
+        return getSwap(id)!
+      })()
+    },
+
+    transitionSwap(id, to, reason, patch = {}) {
+      return db.transaction(() => {
+        const existing = getRow(id)
+        if (existing.status !== to) {
+          assertTransition(existing, to)
+          recordTransition(id, existing.status, to, reason)
+        }
+        applyPatch(existing, to, patch)
+        return getSwap(id)!
+      })()
+    },
+
+    getTransitions(id) {
+      return db
+        .query<
+          {
+            from_status: SwapStatus | null
+            to_status: SwapStatus
+            reason: string
+            at: number
+          },
+          [string]
+        >(
+          `SELECT from_status, to_status, reason, at FROM swap_transitions
+           WHERE swap_id = ? ORDER BY id`
+        )
+        .all(id)
+        .map((row) => ({
+          from: row.from_status,
+          to: row.to_status,
+          reason: row.reason,
+          at: row.at,
+        }))
+    },
+
+    recordPreimage(secret, hashlocks, origin) {
+      return db.transaction(() => {
+        let learned = false
+        for (const hashlock of hashlocks) {
+          const { changes } = db
+            .query(
+              `INSERT INTO preimages (hashlock, encrypted_secret, origin, learned_at)
+               VALUES ($hashlock, $encrypted_secret, $origin, $learned_at)
+               ON CONFLICT (hashlock) DO NOTHING`
+            )
+            .run({
+              hashlock: normalize(hashlock),
+              encrypted_secret: encryptSecret(key, secret),
+              origin,
+              learned_at: Date.now(),
+            })
+          learned = learned || changes > 0
+        }
+        return learned
+      })()
+    },
+
+    findPreimage(hashlock) {
+      const row = db
+        .query<{ encrypted_secret: string }, [string]>(
+          "SELECT encrypted_secret FROM preimages WHERE hashlock = ?"
+        )
+        .get(normalize(hashlock))
+      return row ? decryptSecret(key, row.encrypted_secret) : undefined
+    },
+
+    getCursor<T>(name: string) {
+      const row = db
+        .query<{ value: string }, [string]>(
+          "SELECT value FROM cursors WHERE name = ?"
+        )
+        .get(name)
+      return row ? (JSON.parse(row.value) as T) : undefined
+    },
+
+    setCursor(name, value) {
+      db.query(
+        `INSERT INTO cursors (name, value, updated_at) VALUES ($name, $value, $updated_at)
+         ON CONFLICT (name) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at`
+      ).run({ name, value: JSON.stringify(value), updated_at: Date.now() })
+    },
+
+    recordDecision(decision) {
+      db.query(
+        `INSERT INTO solver_decisions (order_key, action, reason, block_timestamp, details, at)
+         VALUES ($order_key, $action, $reason, $block_timestamp, $details, $at)`
+      ).run({
+        order_key: decision.orderKey,
+        action: decision.action,
+        reason: decision.reason,
+        block_timestamp: decision.blockTimestamp,
+        details: JSON.stringify(decision.details),
+        at: Date.now(),
+      })
+    },
+
+    getDecisions(orderKey, limit = 100) {
+      return db
+        .query<
+          {
+            order_key: string
+            action: SolverAction
+            reason: string
+            block_timestamp: number
+            details: string
+            at: number
+          },
+          Record<string, string | number | null>
+        >(
+          `SELECT * FROM solver_decisions
+           WHERE $order_key IS NULL OR order_key = $order_key
+           ORDER BY id DESC LIMIT $limit`
+        )
+        .all({ order_key: orderKey ?? null, limit })
+        .reverse()
+        .map((row) => ({
+          orderKey: row.order_key,
+          action: row.action,
+          reason: row.reason,
+          blockTimestamp: row.block_timestamp,
+          details: JSON.parse(row.details),
+          at: row.at,
+        }))
+    },
+
+    transaction(fn) {
+      return db.transaction(fn)()
+    },
+
+    close() {
+      db.close()
+    },
+  }
+}
+
+/**
+ * Get the swap store shared by the relayer, bridge CLI and solver, opening it on first use
+ */
+export function getSwapStore(): SwapStore {
+  if (!store) {
+    store = openSwapStore(config.swapStorePath, config.swapStoreKey)
+  }
+  return store
+}
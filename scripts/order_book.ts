@@ -0,0 +1,280 @@
+import * as http from "http"
+import { config, printConfig } from "../config"
+import {
+  matchesOrderFilter,
+  normalizeOrderAddresses,
+  OffchainOrder,
+  OrderFilter,
+  orderKey,
+  parseOrder,
+  verifyOrderSignature,
+} from "./lib/orders"
+import { validateAuction } from "./lib/auction"
+import { errorMessage } from "./lib/errors"
+
+// Largest accepted request body in bytes; an order is well under 2 KiB
+const MAX_BODY_BYTES = 64 * 1024
+
+// Milliseconds between keep-alive comments on event streams
+const KEEP_ALIVE_INTERVAL = 15000
+
+// A solver subscribed over server-sent events
+interface Subscriber {
+  response: http.ServerResponse
+  filter: OrderFilter
+}
+
+// Error answered with an HTTP status instead of 500
+class HttpError extends Error {
+  readonly status: number
+
+  constructor(status: number, message: string) {
+    super(message)
+    this.name = "HttpError"
+    this.status = status
+  }
+}
+
+/**
+ * Current time in seconds, the unit of order deadlines
+ */
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000)
+}
+
+// Signed orders with event-stream subscribers
+export interface OrderBook {
+  /**
+   * Validate and add an order, then push it to matching subscribers
+   * @param value Decoded request body
+   * @returns The stored order
+   * @throws HttpError 400 for a malformed, expired, misaddressed, badly signed or unpriceable order, 409 for a duplicate
+   */
+  submit(value: unknown): Promise<OffchainOrder>
+  /**
+   * Orders whose deadline has not passed, oldest first
+   * @param filter Chain pair to list orders for
+   */
+  open(filter?: OrderFilter): OffchainOrder[]
+  /**
+   * Start streaming orders to a subscriber: the open ones, then each new one
+   * @param response Response to write the event stream to
+   * @param filter Chain pair to send orders for
+   */
+  subscribe(response: http.ServerResponse, filter: OrderFilter): void
+}
+
+/**
+ * Create an in-memory order book
+ *
+ * Orders are kept exactly as the maker signed them, so solvers can verify
+ * the signature again. Expired orders are dropped when the book is read.
+ */
+export function createOrderBook(): OrderBook {
+  const orders = new Map<string, OffchainOrder>()
+  const subscribers = new Set<Subscriber>()
+
+  const open = (filter: OrderFilter = {}): OffchainOrder[] => {
+    const now = nowSeconds()
+    for (const [key, order] of orders) {
+      if (order.deadline <= now) {
+        orders.delete(key)
+      }
+    }
+    return [...orders.values()].filter((order) =>
+      matchesOrderFilter(order, filter)
+    )
+  }
+
+  return {
+    async submit(value) {
+      let order: OffchainOrder
+      try {
+        order = parseOrder(value)
+        // The receiver must belong to the target chain; the order is stored as signed
+        normalizeOrderAddresses(order)
+        validateAuction(order)
+      } catch (error) {
+        throw new HttpError(400, errorMessage(error))
+      }
+      if (order.deadline <= nowSeconds()) {
+        throw new HttpError(400, `Order deadline ${order.deadline} has passed`)
+      }
+      if (!(await verifyOrderSignature(order))) {
+        throw new HttpError(400, "Invalid order signature")
+      }
+
+      const key = orderKey(order)
+      if (orders.has(key)) {
+        throw new HttpError(409, `Order ${key} was already submitted`)
+      }
+      orders.set(key, order)
+      console.log(
+        `Accepted order ${key}: chain ${order.sourceChainId} -> ${order.targetChainId}, amount ${order.amount}`
+      )
+
+      for (const subscriber of subscribers) {
+        if (matchesOrderFilter(order, subscriber.filter)) {
+          sendEvent(subscriber.response, order)
+        }
+      }
+      return order
+    },
+
+    open,
+
+    subscribe(response, filter) {
+      response.writeHead(200, {
+        "content-type": "text/event-stream",
+        "cache-control": "no-cache",
+        connection: "keep-alive",
+      })
+      const subscriber = { response, filter }
+      subscribers.add(subscriber)
+      for (const order of open(filter)) {
+        sendEvent(response, order)
+      }
+
+      const keepAlive = setInterval(
+        () => response.write(": keep-alive\n\n"),
+        KEEP_ALIVE_INTERVAL
+      )
+      response.on("close", () => {
+        clearInterval(keepAlive)
+        subscribers.delete(subscriber)
+      })
+    },
+  }
+}
+
+/**
+ * Write an order as a server-sent event
+ */
+function sendEvent(response: http.ServerResponse, order: OffchainOrder): void {
+  response.write(`event: order\ndata: ${JSON.stringify(order)}\n\n`)
+}
+
+/**
+ * Write a JSON response
+ */
+function sendJson(
+  response: http.ServerResponse,
+  status: number,
+  body: unknown
+): void {
+  response.writeHead(status, { "content-type": "application/json" })
+  response.end(JSON.stringify(body))
+}
+
+/**
+ * Read the chain pair filter from the query string
+ * @throws HttpError 400 if a chain ID is not an integer
+ */
+function parseFilter(query: URLSearchParams): OrderFilter {
+  const filter: OrderFilter = {}
+  for (const key of ["sourceChainId", "targetChainId"] as const) {
+    const value = query.get(key)
+    if (value === null) {
+      continue
+    }
+    if (!/^\d+$/.test(value)) {
+      throw new HttpError(400, `${key} must be a chain ID, got ${value}`)
+    }
+    filter[key] = Number(value)
+  }
+  return filter
+}
+
+/**
+ * Read and decode a JSON request body
+ *
+ * A body that grows too large is no longer read; the connection is closed
+ * once the 413 response is sent.
+ * @throws HttpError 413 if the body is too large, 400 if it is not JSON
+ */
+function readJsonBody(request: http.IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    let size = 0
+    const onData = (chunk: Buffer) => {
+      size += chunk.length
+      if (size > MAX_BODY_BYTES) {
+        request.off("data", onData)
+        request.pause()
+        reject(new HttpError(413, `Request body exceeds ${MAX_BODY_BYTES} bytes`))
+        return
+      }
+      chunks.push(chunk)
+    }
+    request.on("data", onData)
+    request.on("end", () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString("utf8")))
+      } catch {
+        reject(new HttpError(400, "Request body is not valid JSON"))
+      }
+    })
+    request.on("error", reject)
+  })
+}
+
+/**
+ * Create the HTTP server of an order book
+ *
+ * - `POST /orders` submits a signed order
+ * - `GET /orders` lists open orders
+ * - `GET /orders/stream` streams open and new orders as server-sent events
+ *
+ * The GET endpoints take optional `sourceChainId` and `targetChainId` filters.
+ * @param book Order book to serve
+ */
+export function createOrderBookServer(book: OrderBook): http.Server {
+  return http.createServer(async (request, response) => {
+    const url = new URL(request.url ?? "/", "http://localhost")
+    try {
+      if (url.pathname === "/orders" && request.method === "POST") {
+        const order = await book.submit(await readJsonBody(request))
+        sendJson(response, 201, { order })
+      } else if (url.pathname === "/orders" && request.method === "GET") {
+        sendJson(response, 200, { orders: book.open(parseFilter(url.searchParams)) })
+      } else if (url.pathname === "/orders/stream" && request.method === "GET") {
+        book.subscribe(response, parseFilter(url.searchParams))
+      } else {
+        throw new HttpError(404, `No route for ${request.method} ${url.pathname}`)
+      }
+    } catch (error) {
+      if (error instanceof HttpError) {
+        if (error.status === 413) {
+          // The rest of the body is left unread, so the connection cannot be reused
+          response.setHeader("connection", "close")
+          response.on("finish", () => request.destroy())
+        }
+        sendJson(response, error.status, { error: error.message })
+      } else {
+        console.error(`Error handling ${request.method} ${url.pathname}:`, error)
+        sendJson(response, 500, { error: "Internal error" })
+      }
+    }
+  })
+}
+
+/**
+ * Serve an order book on the host and port of `ORDER_BOOK_URL`
+ */
+async function main(): Promise<void> {
+  printConfig()
+  const url = new URL(config.orderBookUrl)
+  const port = Number(url.port || (url.protocol === "https:" ? 443 : 80))
+  const server = createOrderBookServer(createOrderBook())
+  await new Promise<void>((resolve) =>
+    server.listen(port, url.hostname, resolve)
+  )
+  console.log(`Order book listening on ${config.orderBookUrl}`)
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error(error)
+    process.exit(1)
+  })
+}
@@ -1,472 +1,765 @@
-import { AptosClient, AptosAccount, Types, IndexerClient } from "aptos"
-import {
-  createPublicClient,
-  createWalletClient,
-  http,
-  formatEther,
-  decodeEventLog,
-} from "viem"
-import { privateKeyToAccount } from "viem/accounts"
-import * as dotenv from "dotenv"
-import * as fs from "fs"
-import * as path from "path"
-import { config, ETHERLINK_CHAIN } from "../config"
+import { AptosClient, IndexerClient } from "aptos"
+import { Hex, zeroAddress } from "viem"
+import { config, printConfig } from "../config"
 import {
+  CompletionResult,
   completeEtherlinkToAptosSwap,
   completeAptosToEtherlinkSwap,
 } from "./etherlink_bridge"
-
-// Load environment variables
-dotenv.config()
+import {
+  createAptosEventSource,
+  EventCursors,
+  HtlcEvent,
+  HtlcEventHandle,
+  parseHtlcEvent,
+  restoreEventCursors,
+} from "./lib/aptos_events"
+import { parseChainAddress } from "./lib/address"
+import { readInitiatedLock } from "./lib/aptos_htlc"
+import { ChainName, hashlockFor, secretFromPreimage } from "./lib/hashlock"
+import { getEtherlinkClient, HtlcEventLog } from "./lib/etherlink"
+import {
+  errorMessage,
+  SwapCompletionError,
+  SwapCompletionErrorCode,
+} from "./lib/errors"
+import { sleep, withRetry } from "./lib/retry"
+import {
+  getSwapStore,
+  NewSwap,
+  SwapLeg,
+  SwapPatch,
+  SwapRecord,
+} from "./lib/swap_store"
+import {
+  canTransition,
+  COMPLETABLE_STATUSES,
+  SwapStatus,
+} from "./lib/swap_state"
+import {
+  ChainDecimals,
+  formatAmount,
+  fromRaw,
+  loadUnrealDecimals,
+} from "./lib/amount"
 
 // Configuration
 
 // Initialize Aptos client
 const aptosClient = new AptosClient(config.aptosNodeUrl)
 const indexerClient = new IndexerClient(config.aptosIndexerUrl)
+const aptosEventSource = createAptosEventSource(
+  config.aptosEventSource,
+  aptosClient,
+  indexerClient
+)
 
-// Initialize Etherlink clients using viem
-const etherlinkPublicClient = createPublicClient({
-  chain: ETHERLINK_CHAIN,
-  transport: http(config.etherlinkRpcUrl),
-})
+// Etherlink client shared with the bridge completion calls, so both use one nonce sequence
+const etherlink = getEtherlinkClient()
 
-// Create wallet account from private key
-const etherlinkAccount = privateKeyToAccount(
-  config.etherlinkPrivateKey as `0x${string}`
-)
+// Swaps, revealed preimages and chain cursors, shared with the bridge CLI and solver
+const store = getSwapStore()
 
-// Create wallet client
-const etherlinkWalletClient = createWalletClient({
-  account: etherlinkAccount,
-  chain: ETHERLINK_CHAIN,
-  transport: http(config.etherlinkRpcUrl),
-})
-
-// Load contract ABIs
-const htlcArtifact = JSON.parse(
-  fs.readFileSync(
-    path.join(
-      __dirname,
-      "../../../artifacts/contracts/UnrealHTLC.sol/UnrealHTLC.json"
-    ),
-    "utf8"
-  )
-)
+// Cursor names in the swap store
+const ETHERLINK_BLOCK_CURSOR = "etherlink.block"
+const ETHERLINK_CHECKPOINTS_CURSOR = "etherlink.checkpoints"
+const APTOS_EVENTS_CURSOR = "aptos.events"
 
-const tokenArtifact = JSON.parse(
-  fs.readFileSync(
-    path.join(
-      __dirname,
-      "../../../artifacts/contracts/UnrealToken.sol/UnrealToken.json"
-    ),
-    "utf8"
-  )
-)
+// Etherlink RPC has a limit of 100 blocks per query
+const BLOCK_QUERY_LIMIT = 100
 
-// Extract ABIs from artifacts - use directly without parseAbi since they're already in the right format
-const htlcAbi = htlcArtifact.abi
-const tokenAbi = tokenArtifact.abi
+// Hashes of scanned blocks kept for reorg detection, one per chunk
+const MAX_ETHERLINK_CHECKPOINTS = 64
 
-// Create contract instances using viem
-const htlcContract = {
-  address: config.etherlinkHtlcAddress as `0x${string}`,
-  abi: htlcAbi,
+// A scanned Etherlink block and its hash at scan time
+interface BlockCheckpoint {
+  number: number
+  hash: Hex
 }
 
-const tokenContract = {
-  address: config.unrealTokenAddress as `0x${string}`,
-  abi: tokenAbi,
+// UnrealToken decimals on both chains, loaded at startup
+let unrealDecimals: ChainDecimals
+
+/**
+ * Move a swap to a new status when its lifecycle allows it
+ *
+ * Events are seen again after a restart and may describe a swap that has
+ * already moved on, so transitions that no longer apply are skipped and
+ * recorded on the swap as `rejectedTransition`.
+ * @param swap The swap
+ * @param to Status the observed event implies
+ * @param reason The observed event
+ * @param patch Details learned from the event
+ */
+function observeTransition(
+  swap: SwapRecord,
+  to: SwapStatus,
+  reason: string,
+  patch?: SwapPatch
+): void {
+  if (swap.status === to) {
+    return
+  }
+  if (!canTransition(swap.status, to)) {
+    console.warn(
+      `Ignoring ${reason} for swap ${swap.id}: cannot move from ${swap.status} to ${to}`
+    )
+    store.updateSwap(swap.id, {
+      metadata: { rejectedTransition: { from: swap.status, to, reason } },
+    })
+    return
+  }
+  store.transitionSwap(swap.id, to, reason, patch)
+  console.log(`Swap ${swap.id}: ${swap.status} -> ${to} (${reason})`)
 }
 
-// Aptos account from private key
-// Create a random account if private key isn't provided or is invalid
-let aptosAccount: AptosAccount
-try {
-  // Use HexString to properly format the key
-  const privateKeyHex = config.aptosPrivateKey.startsWith("0x")
-    ? config.aptosPrivateKey
-    : `0x${config.aptosPrivateKey}`
-  // Create account using Ed25519PrivateKey approach
-  aptosAccount = AptosAccount.fromAptosAccountObject({
-    privateKeyHex,
-  })
-  console.log(`Using Aptos account: ${aptosAccount.address()}`)
-} catch (error) {
-  console.warn(
-    `Invalid Aptos private key format, using random account for testing`
-  )
-  aptosAccount = new AptosAccount()
-  console.log(`Using random Aptos account: ${aptosAccount.address()}`)
+/**
+ * Record a preimage revealed on chain so swaps locked with its hash can be completed
+ *
+ * Each chain hashes the preimage differently, so it is indexed under the
+ * hashlock of every chain.
+ * @param preimage Hex encoded preimage
+ * @param origin Description of where the preimage was seen
+ */
+function recordPreimage(preimage: string, origin: string): void {
+  if (!preimage || preimage === "0x") {
+    return
+  }
+
+  const { secret, hashlocks } = secretFromPreimage(preimage)
+  if (
+    store.recordPreimage(secret, [hashlocks.Etherlink, hashlocks.Aptos], origin)
+  ) {
+    console.log(
+      `Learned preimage for hashlock ${hashlocks.Etherlink} from ${origin}`
+    )
+  }
+
+  for (const hashlock of Object.values(hashlocks)) {
+    const waiting = store.findSwaps({
+      hashlock,
+      status: ["source_locked", "destination_locked"],
+    })
+    for (const swap of waiting) {
+      observeTransition(swap, "secret_revealed", `preimage revealed in ${origin}`)
+    }
+  }
+}
+
+/**
+ * Advance the swaps whose lock or payout on a chain was claimed with a preimage
+ * @param chain Chain the claim happened on
+ * @param preimage Hex encoded preimage the claim revealed
+ * @param reason The observed event
+ * @param claimTx Hash of the claiming transaction, when known
+ */
+function recordClaim(
+  chain: ChainName,
+  preimage: string,
+  reason: string,
+  claimTx?: string
+): void {
+  recordPreimage(preimage, reason)
+
+  const hashlock = hashlockFor(chain, preimage)
+  for (const swap of store.findSwaps({ hashlock })) {
+    // Claiming the source lock settles the swap; any other claim pays out the destination
+    const to =
+      swap.sourceChain === chain ? "source_claimed" : "destination_claimed"
+    observeTransition(swap, to, reason, {
+      secret: preimage,
+      legs: { [chain]: { claimTx } },
+    })
+  }
+}
+
+/**
+ * Record a lock seen on chain
+ *
+ * A lock under the hashlock of a known swap from the other chain is that
+ * swap's destination lock; otherwise it starts a new swap, keeping any record
+ * the bridge CLI or solver already wrote. A new swap whose target address is
+ * not an address of its target chain is skipped, as it could never be paid out.
+ * @param swap The swap as observed in its initiation event
+ * @param leg The lock on the observed chain
+ */
+function recordLock(swap: Omit<NewSwap, "legs">, leg: SwapLeg): void {
+  const counterparts = store
+    .findSwaps({ hashlock: leg.hashlock, status: "source_locked" })
+    .filter((existing) => existing.sourceChain !== leg.chain)
+  for (const existing of counterparts) {
+    const { chain, ...fields } = leg
+    observeTransition(
+      existing,
+      "destination_locked",
+      `${chain} lock ${swap.id}`,
+      { legs: { [chain]: fields } }
+    )
+  }
+  if (counterparts.length > 0) {
+    return
+  }
+
+  // Only swaps to the other chain are relayed
+  const otherChain: ChainName = leg.chain === "Aptos" ? "Etherlink" : "Aptos"
+  if (swap.targetChain !== otherChain) {
+    return
+  }
+  // The receiver comes from the lock's target chain data, which nothing validated on chain
+  let receiver: string
+  try {
+    receiver = parseChainAddress(otherChain, swap.receiver, "Target address")
+  } catch (error) {
+    console.warn(`Skipping ${leg.chain} lock ${swap.id}: ${errorMessage(error)}`)
+    return
+  }
+  if (
+    store.insertSwap(
+      { ...swap, receiver, legs: [leg] },
+      `${leg.chain} lock observed by relayer`
+    )
+  ) {
+    console.log(`Added pending swap ${swap.id} to queue`)
+  }
 }
 
-// Store last processed block/version
-let lastEtherlinkBlock = 0
-let lastAptosVersion = 0
-
-// Store pending swaps
-interface PendingSwap {
-  id: string
-  sourceChain: string
-  destinationChain: string
-  sender: string
-  recipient: string
-  amount: string
-  secretHash: string
-  timestamp: number
+/**
+ * Mark a swap refunded on its source chain, so it is no longer completed
+ * @param chain Chain the lock was refunded on
+ * @param lockId ID of the refunded lock
+ * @param refundTx Hash of the refund transaction, when known
+ */
+function recordRefund(chain: ChainName, lockId: string, refundTx?: string): void {
+  for (const swap of store.findSwaps({ lockId, sourceChain: chain })) {
+    observeTransition(swap, "refunded", `${chain} lock ${lockId} refunded`, {
+      legs: { [chain]: { refundTx } },
+    })
+  }
 }
 
-const pendingSwaps: Record<string, PendingSwap> = {}
+/**
+ * Handle a single UnrealHTLC event
+ * @param event The decoded event
+ */
+function handleEtherlinkEvent(event: HtlcEventLog): void {
+  switch (event.eventName) {
+    case "SwapInitiated": {
+      const {
+        swapId,
+        sender,
+        recipient,
+        amount,
+        secretHash,
+        targetChain,
+        targetAddress,
+      } = event.args
+      recordLock(
+        {
+          id: swapId,
+          sourceChain: "Etherlink",
+          targetChain: targetChain as ChainName,
+          status: "source_locked",
+          secretHash,
+          sender,
+          receiver: targetAddress,
+          amount: formatAmount(fromRaw(amount, unrealDecimals.Etherlink)),
+          metadata: {},
+        },
+        {
+          chain: "Etherlink",
+          lockId: swapId,
+          sender,
+          recipient,
+          amount: amount.toString(),
+          hashlock: secretHash,
+          endtime: Number(event.args.timelock),
+          initTx: event.transactionHash,
+        }
+      )
+      break
+    }
+    case "SwapWithdrawn":
+      // The recipient claimed on Etherlink, which reveals the secret
+      recordClaim(
+        "Etherlink",
+        event.args.secret,
+        `Etherlink swap ${event.args.swapId} withdrawn`,
+        event.transactionHash
+      )
+      break
+    case "SwapRefunded":
+      // The sender reclaimed the lock after its timelock, so it can no longer complete
+      recordRefund("Etherlink", event.args.swapId, event.transactionHash)
+      break
+    case "SwapCompleted":
+      // A relayer paid out an Aptos-sourced swap on Etherlink
+      recordClaim(
+        "Etherlink",
+        event.args.secret,
+        `Etherlink completion from ${event.args.sourceChain} ${event.args.sourceAddress}`,
+        event.transactionHash
+      )
+      break
+  }
+}
 
 /**
- * Save relayer state to disk
+ * Highest Etherlink block the relayer acts on, per the configured confirmation depth
  */
-function saveRelayerState(): void {
-  const state = {
-    lastEtherlinkBlock,
-    lastAptosVersion,
-    pendingSwaps,
+async function getSafeEtherlinkBlock(): Promise<number> {
+  if (config.etherlinkConfirmations === "finalized") {
+    const block = await etherlink.publicClient.getBlock({
+      blockTag: "finalized",
+    })
+    return Number(block.number)
   }
+  const latest = await etherlink.publicClient.getBlockNumber()
+  return Number(latest) - Number(config.etherlinkConfirmations)
+}
 
-  fs.writeFileSync(
-    path.join(__dirname, "relayer_state.json"),
-    JSON.stringify(state, null, 2)
+/**
+ * Hash of an Etherlink block on the current canonical chain
+ * @param blockNumber The block number
+ */
+async function getEtherlinkBlockHash(blockNumber: number): Promise<Hex> {
+  const block = await withRetry(
+    () => etherlink.publicClient.getBlock({ blockNumber: BigInt(blockNumber) }),
+    `Fetching Etherlink block ${blockNumber}`
   )
+  return block.hash
 }
 
 /**
- * Load relayer state from disk
+ * Check the scanned range is still canonical and rewind past a reorg
+ *
+ * The hash of the last block of every scanned chunk is kept. If the newest
+ * no longer matches, scanning restarts after the newest one that still does.
+ * @param lastBlock Last scanned block
+ * @returns Block to continue scanning after
  */
-function loadRelayerState(): void {
-  try {
-    const statePath = path.join(__dirname, "relayer_state.json")
-    if (fs.existsSync(statePath)) {
-      const state = JSON.parse(fs.readFileSync(statePath, "utf8"))
-      lastEtherlinkBlock = state.lastEtherlinkBlock || 0
-      lastAptosVersion = state.lastAptosVersion || 0
+async function rewindOnReorg(lastBlock: number): Promise<number> {
+  const checkpoints =
+    store.getCursor<BlockCheckpoint[]>(ETHERLINK_CHECKPOINTS_CURSOR) ?? []
+
+  for (let index = checkpoints.length - 1; index >= 0; index--) {
+    const checkpoint = checkpoints[index]
+    if ((await getEtherlinkBlockHash(checkpoint.number)) !== checkpoint.hash) {
+      continue
+    }
+    if (index === checkpoints.length - 1) {
+      return lastBlock
+    }
+
+    console.warn(
+      `Etherlink reorg detected after block ${checkpoint.number}; rescanning from there`
+    )
+    store.transaction(() => {
+      store.setCursor(ETHERLINK_BLOCK_CURSOR, checkpoint.number)
+      store.setCursor(
+        ETHERLINK_CHECKPOINTS_CURSOR,
+        checkpoints.slice(0, index + 1)
+      )
+    })
+    await reevaluateAfterReorg(checkpoint.number)
+    return checkpoint.number
+  }
 
-      // Load pending swaps
-      Object.assign(pendingSwaps, state.pendingSwaps || {})
+  if (checkpoints.length === 0) {
+    return lastBlock
+  }
 
-      console.log(
-        `Loaded state: Last Etherlink block ${lastEtherlinkBlock}, Last Aptos version ${lastAptosVersion}`
+  // Deeper than every checkpoint kept; restart before the oldest one
+  const forkBlock = checkpoints[0].number - BLOCK_QUERY_LIMIT
+  console.error(
+    `Etherlink reorg deeper than ${checkpoints.length} checkpoints; rescanning from block ${forkBlock}`
+  )
+  store.transaction(() => {
+    store.setCursor(ETHERLINK_BLOCK_CURSOR, forkBlock)
+    store.setCursor(ETHERLINK_CHECKPOINTS_CURSOR, [])
+  })
+  await reevaluateAfterReorg(forkBlock)
+  return forkBlock
+}
+
+/**
+ * Re-read the on-chain state of swaps that may have changed in reorged blocks
+ *
+ * Rescanning replays the events of the new chain, but a lock that only
+ * existed on the old chain produces none, so such swaps are flagged and not
+ * completed.
+ * @param forkBlock Last block still canonical
+ */
+async function reevaluateAfterReorg(forkBlock: number): Promise<void> {
+  const forkBlockInfo = await etherlink.publicClient.getBlock({
+    blockNumber: BigInt(forkBlock),
+  })
+  const affected = store
+    .findSwaps({ updatedSince: Number(forkBlockInfo.timestamp) * 1000 })
+    .filter((swap) => swap.legs.Etherlink?.lockId)
+
+  for (const swap of affected) {
+    const lockId = swap.legs.Etherlink!.lockId as Hex
+    try {
+      const lock = await withRetry(
+        () => etherlink.getSwap(lockId),
+        `Reading Etherlink lock ${lockId}`
       )
-      console.log(`Pending swaps: ${Object.keys(pendingSwaps).length}`)
-    } else {
-      console.log("No previous state found, starting fresh")
+      if (lock.sender === zeroAddress) {
+        console.warn(
+          `Etherlink lock ${lockId} of swap ${swap.id} was reorged out; not completing it`
+        )
+        store.updateSwap(swap.id, { metadata: { reorgedOut: true } })
+        continue
+      }
+
+      store.updateSwap(swap.id, { metadata: { reorgedOut: false } })
+      if (lock.withdrawn) {
+        recordClaim("Etherlink", lock.secret, `Etherlink lock ${lockId} withdrawn`)
+      } else if (lock.refunded) {
+        recordRefund("Etherlink", lockId)
+      }
+    } catch (error) {
+      console.error(`Error re-evaluating swap ${swap.id} after reorg:`, error)
     }
-  } catch (error) {
-    console.warn("Error loading state:", error)
-    console.log("Starting with fresh state")
   }
 }
 
 /**
- * Monitor events on Etherlink for SwapInitiated events
+ * Monitor UnrealHTLC events on Etherlink up to the confirmed block
+ *
+ * Blocks are scanned in chunks. Each chunk's events and the cursor move are
+ * committed together. A chunk whose query still fails after retries, or one
+ * of whose events fails to be handled, stops the scan, so it is retried on the
+ * next poll instead of being skipped.
  */
 async function monitorEtherlinkEvents(): Promise<void> {
   try {
-    // Get current block
-    const currentBlock = await etherlinkPublicClient.getBlockNumber()
+    const safeBlock = await getSafeEtherlinkBlock()
+    let lastEtherlinkBlock = store.getCursor<number>(ETHERLINK_BLOCK_CURSOR) ?? 0
 
     if (lastEtherlinkBlock === 0) {
       // First run, start from recent block to avoid processing historical events
-      lastEtherlinkBlock = Number(currentBlock) - 200
+      lastEtherlinkBlock = safeBlock - 200
+    } else {
+      lastEtherlinkBlock = await rewindOnReorg(lastEtherlinkBlock)
     }
 
-    if (currentBlock <= lastEtherlinkBlock) {
-      return // No new blocks
+    if (safeBlock <= lastEtherlinkBlock) {
+      return // No new confirmed blocks
     }
 
     console.log(
-      `Checking Etherlink events from block ${lastEtherlinkBlock} to ${currentBlock}`
+      `Checking Etherlink events from block ${lastEtherlinkBlock} to ${safeBlock} (${config.etherlinkConfirmations} confirmations)`
     )
 
     // Etherlink RPC has a limit of 100 blocks per query, so we need to chunk our requests
-    // Get SwapInitiated events in batches of 100 blocks
-    let allEvents: any[] = []
-    const BLOCK_QUERY_LIMIT = 100
-
     for (
       let fromBlock = lastEtherlinkBlock + 1;
-      fromBlock <= Number(currentBlock);
+      fromBlock <= safeBlock;
       fromBlock += BLOCK_QUERY_LIMIT
     ) {
-      const toBlock = Math.min(
-        fromBlock + BLOCK_QUERY_LIMIT - 1,
-        Number(currentBlock)
-      )
+      const toBlock = Math.min(fromBlock + BLOCK_QUERY_LIMIT - 1, safeBlock)
       console.log(
         `Querying events from block ${fromBlock} to ${toBlock} (batch of ${toBlock - fromBlock + 1} blocks)`
       )
 
+      let events: HtlcEventLog[]
+      let toBlockHash: Hex
       try {
-        const batchEvents = await etherlinkPublicClient.getContractEvents({
-          address: config.etherlinkHtlcAddress as `0x${string}`,
-          abi: htlcAbi,
-          eventName: "SwapInitiated",
-          fromBlock: BigInt(fromBlock),
-          toBlock: BigInt(toBlock),
-        })
-
-        allEvents = [...allEvents, ...batchEvents]
+        // Query every HTLC event so withdrawals revealing a secret are seen as well
+        events = await withRetry(
+          () => etherlink.getHtlcEvents(BigInt(fromBlock), BigInt(toBlock)),
+          `Querying Etherlink blocks ${fromBlock}-${toBlock}`
+        )
+        toBlockHash = await getEtherlinkBlockHash(toBlock)
       } catch (batchError) {
         console.error(
-          `Error querying blocks ${fromBlock}-${toBlock}:`,
+          `Error querying blocks ${fromBlock}-${toBlock}, retrying next poll:`,
           batchError
         )
+        return
       }
-    }
 
-    const events = allEvents
-
-    for (const event of events) {
-      // Safely extract arguments from the event - viem has a different structure
-      try {
-        // With viem, we need to decode the log data manually
-        const decodedLog = decodeEventLog({
-          abi: htlcAbi,
-          eventName: "SwapInitiated",
-          topics: event.topics as [`0x${string}`, ...`0x${string}`[]],
-          data: event.data,
-        })
-
-        // Cast args to any to handle potential type issues
-        const args = decodedLog.args as any
-        const swapId = args.swapId
-        const sender = args.sender
-        const recipient = args.recipient
-        const amount = args.amount
-        const secretHash = args.secretHash
-        const targetChain = args.targetChain
-
-        // Only process events for Aptos target chain
-        if (targetChain === "Aptos") {
-          console.log(`Found new Etherlink->Aptos swap: ${swapId}`)
-
-          // Store in pending swaps
-          pendingSwaps[swapId] = {
-            id: swapId,
-            sourceChain: "Etherlink",
-            destinationChain: "Aptos",
-            sender: sender,
-            recipient: recipient,
-            amount: formatEther(amount),
-            secretHash: secretHash,
-            timestamp: Date.now(),
-          }
-
-          console.log(`Added pending swap ${swapId} to queue`)
+      // A failing event rolls back the whole chunk, which is scanned again next poll
+      store.transaction(() => {
+        for (const event of events) {
+          handleEtherlinkEvent(event)
         }
-      } catch (error) {
-        console.error("Error processing Etherlink event:", error)
-      }
-    }
 
-    // Update last processed block
-    lastEtherlinkBlock = Number(currentBlock)
-    saveRelayerState()
+        const checkpoints =
+          store.getCursor<BlockCheckpoint[]>(ETHERLINK_CHECKPOINTS_CURSOR) ?? []
+        checkpoints.push({ number: toBlock, hash: toBlockHash })
+        store.setCursor(
+          ETHERLINK_CHECKPOINTS_CURSOR,
+          checkpoints.slice(-MAX_ETHERLINK_CHECKPOINTS)
+        )
+        store.setCursor(ETHERLINK_BLOCK_CURSOR, toBlock)
+      })
+    }
   } catch (error) {
     console.error("Error monitoring Etherlink events:", error)
   }
 }
 
 /**
- * Monitor events on Aptos for swap initiation
+ * Handle a single event from one of the UnrealHTLCState event handles
+ * @param handle Event handle the event was read from
+ * @param event The event
  */
-async function monitorAptosEvents(): Promise<void> {
-  try {
-    // Get current version
-    const ledgerInfo = await aptosClient.getLedgerInfo()
-    const currentVersion = parseInt(ledgerInfo.ledger_version, 10)
-
-    if (lastAptosVersion === 0) {
-      // First run, start from recent version to avoid processing historical events
-      lastAptosVersion = Math.max(0, currentVersion - 1000)
+async function handleAptosEvent(
+  handle: HtlcEventHandle,
+  event: HtlcEvent
+): Promise<void> {
+  const parsed = parseHtlcEvent(handle, event)
+
+  switch (parsed.handle) {
+    case "swap_initiated_events": {
+      const { data } = parsed
+      const { lock_id, sender, target_chain } = data
+      // Refunds and the expiry check need the lookup ID and end time, which the event lacks
+      const lock =
+        event.version === undefined
+          ? undefined
+          : await withRetry(
+              () => readInitiatedLock(aptosClient, event.version!, data),
+              `Reading the initiate_swap call of Aptos lock ${lock_id}`
+            )
+      if (!lock) {
+        console.warn(
+          `Aptos lock ${lock_id} was not initiated by an initiate_swap call; its refund and expiry are not tracked`
+        )
+      }
+      const leg: SwapLeg = {
+        chain: "Aptos",
+        lockId: lock?.lockId,
+        sender,
+        recipient: data.recipient,
+        amount: String(data.amount),
+        hashlock: data.secret_hash,
+        endtime: lock?.endtime,
+      }
+      recordLock(
+        {
+          // Keyed like the bridge CLI and solver key the swaps they initiate
+          id: lock?.lockId ?? lock_id,
+          sourceChain: "Aptos",
+          targetChain: target_chain as ChainName,
+          status: "source_locked",
+          secretHash: data.secret_hash,
+          sender,
+          receiver: data.target_address,
+          amount: formatAmount(fromRaw(data.amount, unrealDecimals.Aptos)),
+          metadata: {},
+        },
+        leg
+      )
+      return
     }
-
-    if (currentVersion <= lastAptosVersion) {
-      return // No new transactions
+    case "swap_withdrawn_events": {
+      const { data } = parsed
+      console.log(`Aptos lock ${data.lock_id} withdrawn by ${data.recipient}`)
+      recordClaim("Aptos", data.preimage, `Aptos lock ${data.lock_id} withdrawn`)
+      return
+    }
+    case "swap_refunded_events": {
+      const { data } = parsed
+      console.log(`Aptos lock ${data.lock_id} refunded to ${data.sender}`)
+      recordRefund("Aptos", data.lock_id)
+      return
     }
+    case "cross_chain_completed_events": {
+      const { data } = parsed
+      console.log(
+        `Cross-chain swap from ${data.source_chain} completed for ${data.destination}`
+      )
+      recordClaim(
+        "Aptos",
+        data.preimage,
+        `Aptos completion from ${data.source_chain} ${data.source_address}`
+      )
+      return
+    }
+  }
+}
 
+/**
+ * Monitor the UnrealHTLCState events on Aptos through the configured event source
+ *
+ * Events are tracked by per-handle sequence number, so every swap is seen
+ * regardless of which account sent the transaction or how many landed between polls.
+ */
+async function monitorAptosEvents(): Promise<void> {
+  const aptosEventCursors = restoreEventCursors(
+    store.getCursor<EventCursors>(APTOS_EVENTS_CURSOR)
+  )
+  try {
     console.log(
-      `Checking Aptos events from version ${lastAptosVersion} to ${currentVersion}`
+      `Checking Aptos events via ${aptosEventSource.name} from cursors ${JSON.stringify(aptosEventCursors)}`
     )
 
-    // Query for SwapInitiated events using the indexer
-    // Note: This is a simplified implementation
-    // In a production environment, you would use the Aptos indexer GraphQL API
-
-    // For now, we'll use the REST API to get transactions for the module
-    const transactions = await aptosClient.getAccountTransactions(
-      config.aptosModuleAddress,
-      { start: lastAptosVersion, limit: 100 }
+    const processed = await aptosEventSource.poll(
+      aptosEventCursors,
+      handleAptosEvent
     )
 
-    for (const tx of transactions) {
-      // Cast the transaction to the appropriate type
-      const userTx = tx as any
-
-      if (
-        userTx.type === "user_transaction" &&
-        userTx.payload &&
-        userTx.payload.type === "entry_function_payload" &&
-        userTx.payload.function &&
-        userTx.payload.function.includes(
-          `${config.aptosModuleName}::initiate_swap`
-        )
-      ) {
-        // This is a swap initiation, extract details
-        // In a production environment, you would parse events properly
-        const eventData =
-          userTx.events &&
-          userTx.events.find(
-            (e: any) =>
-              e.type &&
-              e.type.includes(`${config.aptosModuleName}::SwapInitiatedEvent`)
-          )
-
-        if (eventData) {
-          const { lock_id, sender, target_chain } = eventData.data
-
-          // Only process events for Etherlink target chain
-          if (target_chain === "Etherlink") {
-            console.log(`Found new Aptos->Etherlink swap: ${lock_id}`)
-
-            pendingSwaps[lock_id] = {
-              id: lock_id,
-              sourceChain: "Aptos",
-              destinationChain: "Etherlink",
-              sender: sender,
-              recipient: eventData.data.target_address,
-              amount: (eventData.data.amount / 1e8).toString(),
-              secretHash: eventData.data.secret_hash,
-              timestamp: Date.now(),
-            }
-
-            console.log(`Added pending swap ${lock_id} to queue`)
-          }
-        }
-      }
+    if (processed > 0) {
+      console.log(`Processed ${processed} Aptos events`)
     }
-
-    // Update last processed version
-    lastAptosVersion = currentVersion
-    saveRelayerState()
   } catch (error) {
     console.error("Error monitoring Aptos events:", error)
+  } finally {
+    // Cursors only advance past handled events, so persist whatever progress was made
+    store.setCursor(APTOS_EVENTS_CURSOR, aptosEventCursors)
+  }
+}
+
+// Completion failures raised before any transaction is sent
+const PRE_SEND_FAILURES: SwapCompletionErrorCode[] = [
+  "destination_not_registered",
+  "simulation_failed",
+]
+
+/**
+ * Decide what a failed completion means for a swap
+ *
+ * A failure raised before sending clears the swap's `completionSent` marker;
+ * any other failure keeps it, since the transaction may still land.
+ * Retryable failures are tried again on the next poll. A refunded or expired
+ * source lock moves the swap on; any other permanent failure is recorded on the
+ * swap so later polls stop trying it.
+ * @param swap The swap that failed to complete
+ * @param error The thrown value
+ */
+function handleCompletionError(swap: SwapRecord, error: unknown): void {
+  if (
+    error instanceof SwapCompletionError &&
+    PRE_SEND_FAILURES.includes(error.code)
+  ) {
+    store.updateSwap(swap.id, { metadata: { completionSent: null } })
+  }
+
+  if (!(error instanceof SwapCompletionError) || error.retryable) {
+    console.error(
+      `Failed to complete swap ${swap.id}, retrying next poll:`,
+      errorMessage(error)
+    )
+    return
+  }
+
+  console.error(`Giving up on swap ${swap.id}: ${error.message}`)
+  switch (error.code) {
+    case "source_refunded":
+      observeTransition(swap, "refunded", error.message)
+      return
+    case "source_expired":
+      observeTransition(swap, "expired", error.message)
+      return
+    default:
+      store.updateSwap(swap.id, {
+        metadata: {
+          completionError: { code: error.code, message: error.message },
+        },
+      })
   }
 }
 
 /**
  * Process pending swaps
+ *
+ * A swap is completed on its destination chain once the preimage for its
+ * hashlock has been revealed on either chain.
  */
 async function processPendingSwaps(): Promise<void> {
   try {
-    const swapIds = Object.keys(pendingSwaps)
-    if (swapIds.length === 0) {
+    const swaps = store.findSwaps({ status: COMPLETABLE_STATUSES })
+    if (swaps.length === 0) {
       return
     }
 
-    console.log(`Processing ${swapIds.length} pending swaps`)
-
-    for (const swapId of swapIds) {
-      const swap = pendingSwaps[swapId]
-
-      // Check if swap is from Etherlink to Aptos
-      if (
-        swap.sourceChain === "Etherlink" &&
-        swap.destinationChain === "Aptos"
-      ) {
-        try {
-          // In a real implementation, we would need to get the secret
-          // Here we assume we have access to the secret through some secure channel
-          // or that the secret is revealed in an event
-
-          // For demonstration purposes only:
-          // Look for the secret in swap details files
-          const swapDetailsPath = path.join(__dirname, `swap_${swapId}.json`)
-          if (fs.existsSync(swapDetailsPath)) {
-            const swapDetails = JSON.parse(
-              fs.readFileSync(swapDetailsPath, "utf8")
-            )
+    console.log(`Processing ${swaps.length} pending swaps`)
 
-            if (swapDetails.secret) {
-              console.log(`Completing Etherlink->Aptos swap ${swapId}`)
-
-              try {
-                // Execute the completion on Aptos
-                await completeEtherlinkToAptosSwap(swapId, swapDetails.secret)
-
-                // Remove from pending
-                delete pendingSwaps[swapId]
-                console.log(`Completed and removed swap ${swapId}`)
-              } catch (completionError) {
-                console.error(
-                  `Failed to complete swap ${swapId}:`,
-                  completionError
-                )
-              }
-            } else {
-              console.log(`Waiting for secret for swap ${swapId}`)
-            }
-          } else {
-            console.log(`No swap details file found for ${swapId}`)
-          }
-        } catch (error) {
-          console.error(
-            `Error processing Etherlink->Aptos swap ${swapId}:`,
-            error
-          )
-        }
+    for (const swap of swaps) {
+      const swapId = swap.id
+
+      if (swap.metadata.reorgedOut) {
+        console.log(`Skipping swap ${swapId}: its Etherlink lock was reorged out`)
+        continue
       }
 
-      // Check if swap is from Aptos to Etherlink
-      else if (
-        swap.sourceChain === "Aptos" &&
-        swap.destinationChain === "Etherlink"
-      ) {
-        try {
-          // Similar approach for Aptos to Etherlink swaps
-          const swapDetailsPath = path.join(__dirname, `swap_${swapId}.json`)
-          if (fs.existsSync(swapDetailsPath)) {
-            const swapDetails = JSON.parse(
-              fs.readFileSync(swapDetailsPath, "utf8")
-            )
+      if (swap.metadata.completionError) {
+        continue
+      }
+
+      // A completion may be in flight or landed unseen; sending again could pay twice
+      if (swap.metadata.completionSent) {
+        console.log(
+          `Skipping swap ${swapId}: a completion was sent at ${swap.metadata.completionSent}, waiting for its claim event`
+        )
+        continue
+      }
+
+      // The solver settles its swaps itself; paying one out here would pay it twice
+      if (swap.metadata.solver) {
+        continue
+      }
+
+      // Paying out once the source lock can be refunded would risk losing both legs
+      const endtime = swap.legs[swap.sourceChain]?.endtime
+      if (endtime !== undefined && Date.now() / 1000 >= endtime) {
+        observeTransition(swap, "expired", "source timelock passed")
+        continue
+      }
+
+      const preimage = store.findPreimage(swap.secretHash)
+      if (!preimage) {
+        console.log(`Waiting for secret for swap ${swapId}`)
+        continue
+      }
+
+      const details = {
+        sourceChain: swap.sourceChain,
+        sender: swap.sender,
+        receiver: swap.receiver,
+        amount: swap.amount,
+      }
 
-            if (swapDetails.secret) {
-              console.log(`Completing Aptos->Etherlink swap ${swapId}`)
-
-              try {
-                // Execute the completion on Etherlink
-                await completeAptosToEtherlinkSwap(swapId, swapDetails.secret)
-
-                // Remove from pending
-                delete pendingSwaps[swapId]
-                console.log(`Completed and removed swap ${swapId}`)
-              } catch (completionError) {
-                console.error(
-                  `Failed to complete swap ${swapId}:`,
-                  completionError
-                )
-              }
-            } else {
-              console.log(`Waiting for secret for swap ${swapId}`)
-            }
-          } else {
-            console.log(`No swap details file found for ${swapId}`)
-          }
-        } catch (error) {
-          console.error(
-            `Error processing Aptos->Etherlink swap ${swapId}:`,
-            error
-          )
+      store.updateSwap(swapId, {
+        metadata: { completionSent: new Date().toISOString() },
+      })
+
+      try {
+        let result: CompletionResult
+        // Check if swap is from Etherlink to Aptos
+        if (
+          swap.sourceChain === "Etherlink" &&
+          swap.targetChain === "Aptos"
+        ) {
+          console.log(`Completing Etherlink->Aptos swap ${swapId}`)
+          // Execute the completion on Aptos
+          result = await completeEtherlinkToAptosSwap(swapId, preimage, details)
+        }
+
+        // Check if swap is from Aptos to Etherlink
+        else if (
+          swap.sourceChain === "Aptos" &&
+          swap.targetChain === "Etherlink"
+        ) {
+          console.log(`Completing Aptos->Etherlink swap ${swapId}`)
+          // Execute the completion on Etherlink
+          result = await completeAptosToEtherlinkSwap(swapId, preimage, details)
+        } else {
+          continue
         }
+
+        console.log(
+          result === "completed"
+            ? `Completed swap ${swapId}`
+            : `Swap ${swapId} was already settled`
+        )
+      } catch (error) {
+        handleCompletionError(swap, error)
       }
     }
-
-    // Save state after processing
-    saveRelayerState()
   } catch (error) {
     console.error("Error processing pending swaps:", error)
   }
@@ -477,21 +770,37 @@ async function processPendingSwaps(): Promise<void> {
  */
 async function startRelayer(): Promise<void> {
   console.log("Starting Unreal cross-chain relayer...")
+  printConfig()
   console.log(`Monitoring Etherlink bridge at ${config.etherlinkBridgeAddress}`)
   console.log(
-    `Monitoring Aptos module at ${config.aptosModuleAddress}::${config.aptosModuleName}`
+    `Monitoring Aptos module at ${config.aptosModuleAddress}::${config.aptosModuleName} via ${aptosEventSource.name} events`
   )
 
-  // Load previous state
-  loadRelayerState()
+  const pending = store.findSwaps({ status: COMPLETABLE_STATUSES })
+  console.log(
+    `Loaded state from ${store.file}: last Etherlink block ${store.getCursor(ETHERLINK_BLOCK_CURSOR) ?? "none"}, Aptos event cursors ${JSON.stringify(store.getCursor(APTOS_EVENTS_CURSOR) ?? "none")}`
+  )
+  console.log(`Pending swaps: ${pending.length}`)
+
+  unrealDecimals = await loadUnrealDecimals(aptosClient, () =>
+    etherlink.decimals()
+  )
+  console.log(
+    `UnrealToken decimals: Aptos ${unrealDecimals.Aptos}, Etherlink ${unrealDecimals.Etherlink}`
+  )
 
   // Run initial checks
   await monitorEtherlinkEvents()
   await monitorAptosEvents()
   await processPendingSwaps()
 
-  // Set up interval for continuous monitoring
-  setInterval(async () => {
+  console.log(
+    `Relayer running, polling every ${config.pollInterval / 1000} seconds`
+  )
+
+  // Each poll starts after the previous one finished, so two never complete the same swap
+  while (true) {
+    await sleep(config.pollInterval)
     try {
       await monitorEtherlinkEvents()
       await monitorAptosEvents()
@@ -499,11 +808,7 @@ async function startRelayer(): Promise<void> {
     } catch (error) {
       console.error("Error in relayer loop:", error)
     }
-  }, config.pollInterval)
-
-  console.log(
-    `Relayer running, polling every ${config.pollInterval / 1000} seconds`
-  )
+  }
 }
 
 // Run the relayer if executed directly
@@ -5,6 +5,7 @@ module unreal::unreal_htlc {
     use std::vector;
     use std::hash;
     use std::bcs;
+    use aptos_std::aptos_hash;
     use aptos_framework::account;
     use aptos_framework::coin;
     use aptos_framework::timestamp;
@@ -305,8 +306,8 @@ module unreal::unreal_htlc {
         assert!(!lock_contract.withdrawn, error::invalid_state(ERR_ALREADY_WITHDRAWN));
         assert!(!lock_contract.refunded, error::invalid_state(ERR_ALREADY_REFUNDED));
         
-        // Verify preimage matches the hash
-        let preimage_hash = hash::sha3_256(preimage);
+        // Verify preimage matches the hash; keccak256 like UnrealHTLC.sol, so one hashlock serves both chains
+        let preimage_hash = aptos_hash::keccak256(preimage);
         assert!(preimage_hash == lock_contract.secret_hash, error::invalid_argument(ERR_INVALID_PREIMAGE));
         
         // Update lock contract
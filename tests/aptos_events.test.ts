@@ -0,0 +1,286 @@
+import "./test_env"
+import { describe, expect, test } from "bun:test"
+import { AptosClient, IndexerClient } from "aptos"
+import {
+  createIndexerEventSource,
+  createRestEventSource,
+  HtlcEvent,
+  HtlcEventHandle,
+  htlcIndexedTypes,
+  IndexedEventRow,
+  initialEventCursors,
+  parseHtlcEvent,
+} from "../scripts/lib/aptos_events"
+
+// Indexed type of each handle's event struct
+const INDEXED_TYPES = new Map(
+  [...htlcIndexedTypes()].map(([type, handle]) => [handle, type])
+)
+
+// Conditions of the `events_bool_exp` the event sources send
+interface Where {
+  _or?: Where[]
+  account_address?: { _eq: string }
+  indexed_type?: { _in: string[] }
+  transaction_version?: Record<string, string>
+  event_index?: { _gt: number }
+}
+
+/**
+ * Evaluate a comparison of a number against GraphQL operands
+ */
+function compare(value: number, operands: Record<string, string | number>): boolean {
+  return Object.entries(operands).every(([operator, operand]) => {
+    const other = Number(operand)
+    switch (operator) {
+      case "_eq":
+        return value === other
+      case "_gt":
+        return value > other
+      case "_gte":
+        return value >= other
+      case "_lte":
+        return value <= other
+      default:
+        throw new Error(`Unexpected operator ${operator}`)
+    }
+  })
+}
+
+/**
+ * Whether a row matches a filter of the event sources
+ */
+function matches(row: IndexedEventRow, where: Where): boolean {
+  return (
+    (!where._or || where._or.some((branch) => matches(row, branch))) &&
+    (!where.indexed_type || where.indexed_type._in.includes(row.indexed_type)) &&
+    (!where.transaction_version ||
+      compare(row.transaction_version, where.transaction_version)) &&
+    (!where.event_index || compare(row.event_index, where.event_index))
+  )
+}
+
+/**
+ * Indexer answering the HTLC events query from rows that may change between pages
+ */
+function stubIndexer(rows: IndexedEventRow[]) {
+  const queries: Where[] = []
+  const indexer = {
+    async queryIndexer({
+      variables,
+    }: {
+      variables: { where: Where; limit: number }
+    }) {
+      queries.push(variables.where)
+      const events = rows
+        .filter((row) => matches(row, variables.where))
+        .sort(
+          (a, b) =>
+            a.transaction_version - b.transaction_version ||
+            a.event_index - b.event_index
+        )
+        .slice(0, variables.limit)
+      return { events }
+    },
+  }
+  return { indexer: indexer as unknown as IndexerClient, queries }
+}
+
+/**
+ * Fullnode serving the REST events of the same rows by handle
+ */
+function stubRestClient(rows: IndexedEventRow[]): AptosClient {
+  const client = {
+    async getEventsByEventHandle(
+      _address: string,
+      _struct: string,
+      handle: HtlcEventHandle,
+      { start, limit }: { start: bigint; limit: number }
+    ) {
+      return rows
+        .filter(
+          (row) =>
+            row.indexed_type === INDEXED_TYPES.get(handle) &&
+            BigInt(row.sequence_number) >= start
+        )
+        .sort((a, b) => a.sequence_number - b.sequence_number)
+        .slice(0, limit)
+        .map((row) => ({
+          guid: { creation_number: "0", account_address: row.account_address },
+          sequence_number: row.sequence_number.toString(),
+          type: row.type,
+          data: row.data,
+          version: row.transaction_version.toString(),
+        }))
+    },
+  }
+  return client as unknown as AptosClient
+}
+
+/**
+ * Build event rows, numbering each handle's events in order
+ * @param events Version, event index and handle of each event
+ * @param sequences Next sequence number of each handle, updated in place
+ */
+function eventRows(
+  events: [version: number, eventIndex: number, handle: HtlcEventHandle][],
+  sequences: Partial<Record<HtlcEventHandle, number>> = {}
+): IndexedEventRow[] {
+  return events.map(([version, eventIndex, handle]) => {
+    const sequence = sequences[handle] ?? 0
+    sequences[handle] = sequence + 1
+    const type = INDEXED_TYPES.get(handle)!
+    return {
+      account_address: "0xcafe",
+      creation_number: 0,
+      sequence_number: sequence,
+      transaction_version: version,
+      event_index: eventIndex,
+      indexed_type: type,
+      type,
+      data: { version },
+    }
+  })
+}
+
+/**
+ * Identify a delivered event by its handle and sequence number
+ */
+function eventId(handle: HtlcEventHandle, event: HtlcEvent): string {
+  return `${handle}#${event.sequence_number}`
+}
+
+describe("createIndexerEventSource", () => {
+  test("pages by position, so rows indexed while paging are read once", async () => {
+    const sequences = {}
+    const rows = eventRows(
+      Array.from({ length: 150 }, (_, i) => [10 + i, 0, "swap_initiated_events"]),
+      sequences
+    )
+    const { indexer, queries } = stubIndexer(rows)
+    const delivered: string[] = []
+
+    const processed = await createIndexerEventSource(indexer).poll(
+      initialEventCursors(),
+      (handle, event) => {
+        delivered.push(eventId(handle, event))
+        // New events land while the first page is being handled
+        if (delivered.length === 1) {
+          rows.push(...eventRows([[500, 0, "swap_initiated_events"]], sequences))
+        }
+      }
+    )
+
+    expect(processed).toBe(151)
+    expect(new Set(delivered).size).toBe(151)
+    expect(queries[1]._or).toEqual([
+      { transaction_version: { _gt: "109" } },
+      { transaction_version: { _eq: "109" }, event_index: { _gt: 0 } },
+    ])
+  })
+
+  test("resumes at a version shared with a handled event without replaying it", async () => {
+    const rows = eventRows([
+      [10, 0, "swap_initiated_events"],
+      [20, 0, "swap_initiated_events"],
+      [20, 1, "swap_withdrawn_events"],
+    ])
+    const { indexer } = stubIndexer(rows)
+    const source = createIndexerEventSource(indexer)
+    const cursors = initialEventCursors()
+
+    // The second event of version 20 fails, so the poll stops there
+    await expect(
+      source.poll(cursors, (handle) => {
+        if (handle === "swap_withdrawn_events") {
+          throw new Error("handler failed")
+        }
+      })
+    ).rejects.toThrow("handler failed")
+    expect(cursors.version).toBe("20")
+
+    const delivered: string[] = []
+    await source.poll(cursors, (handle, event) => {
+      delivered.push(eventId(handle, event))
+    })
+    expect(delivered).toEqual(["swap_withdrawn_events#0"])
+    expect(cursors.sequenceNumbers).toMatchObject({
+      swap_initiated_events: "2",
+      swap_withdrawn_events: "1",
+    })
+  })
+
+  test("leaves the version cursor alone for rows it skips", async () => {
+    const rows = eventRows([[30, 0, "swap_initiated_events"]])
+    const { indexer } = stubIndexer(rows)
+    const cursors = initialEventCursors()
+    cursors.sequenceNumbers.swap_initiated_events = "1"
+
+    expect(await createIndexerEventSource(indexer).poll(cursors, () => {})).toBe(0)
+    expect(cursors.version).toBe("0")
+  })
+})
+
+describe("handover from the REST source to the indexer", () => {
+  test("the indexer only delivers events the REST source has not", async () => {
+    const sequences = {}
+    const rows = eventRows(
+      [
+        [10, 0, "swap_initiated_events"],
+        [20, 0, "swap_initiated_events"],
+        [20, 1, "swap_withdrawn_events"],
+      ],
+      sequences
+    )
+    const cursors = initialEventCursors()
+    const delivered: string[] = []
+    const record = (handle: HtlcEventHandle, event: HtlcEvent) => {
+      delivered.push(eventId(handle, event))
+    }
+
+    expect(await createRestEventSource(stubRestClient(rows)).poll(cursors, record)).toBe(3)
+    expect(cursors.version).toBe("21")
+
+    rows.push(
+      ...eventRows(
+        [
+          [21, 0, "swap_refunded_events"],
+          [25, 0, "swap_initiated_events"],
+        ],
+        sequences
+      )
+    )
+    const { indexer } = stubIndexer(rows)
+    expect(await createIndexerEventSource(indexer).poll(cursors, record)).toBe(2)
+    expect(delivered).toEqual([
+      "swap_initiated_events#0",
+      "swap_initiated_events#1",
+      "swap_withdrawn_events#0",
+      "swap_refunded_events#0",
+      "swap_initiated_events#2",
+    ])
+  })
+})
+
+describe("parseHtlcEvent", () => {
+  const refunded = (data: Record<string, unknown>): HtlcEvent => ({
+    guid: { creation_number: "0", account_address: "0xcafe" },
+    sequence_number: "7",
+    type: "0xcafe::unreal_htlc::SwapRefundedEvent",
+    data,
+  })
+
+  test("types the data by the handle it was read from", () => {
+    const data = { lock_id: "0x01", sender: "0xbeef", amount: "100" }
+    expect(parseHtlcEvent("swap_refunded_events", refunded(data))).toEqual({
+      handle: "swap_refunded_events",
+      data,
+    })
+  })
+
+  test("rejects data missing a field of the event struct", () => {
+    expect(() =>
+      parseHtlcEvent("swap_refunded_events", refunded({ lock_id: "0x01", amount: 100 }))
+    ).toThrow("SwapRefundedEvent #7 has no string sender")
+  })
+})
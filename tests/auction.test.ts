@@ -0,0 +1,119 @@
+import { describe, expect, test } from "bun:test"
+import { AuctionParams, auctionPrice, validateAuction } from "../scripts/lib/auction"
+
+const LINEAR: AuctionParams = {
+  startPrice: "2000",
+  endPrice: "1000",
+  startTime: 100,
+  endTime: 200,
+  auctionCurve: "linear",
+  auctionPoints: [],
+}
+
+const PIECEWISE: AuctionParams = {
+  ...LINEAR,
+  auctionCurve: "piecewise",
+  auctionPoints: [
+    { delay: 20, price: "1200" },
+    { delay: 60, price: "1100" },
+  ],
+}
+
+const EXPONENTIAL: AuctionParams = { ...LINEAR, auctionCurve: "exponential" }
+
+describe("auctionPrice", () => {
+  test("starts at the start price and ends at the end price on every curve", () => {
+    for (const auction of [LINEAR, PIECEWISE, EXPONENTIAL]) {
+      expect(auctionPrice(auction, 100n)).toBe(2000n)
+      expect(auctionPrice(auction, 200n)).toBe(1000n)
+    }
+  })
+
+  test("holds the start price before startTime and the end price after endTime", () => {
+    for (const auction of [LINEAR, PIECEWISE, EXPONENTIAL]) {
+      expect(auctionPrice(auction, 0n)).toBe(2000n)
+      expect(auctionPrice(auction, 99n)).toBe(2000n)
+      expect(auctionPrice(auction, 201n)).toBe(1000n)
+      expect(auctionPrice(auction, 10_000n)).toBe(1000n)
+    }
+  })
+
+  test("falls in a straight line on a linear curve", () => {
+    expect(auctionPrice(LINEAR, 150n)).toBe(1500n)
+    expect(auctionPrice(LINEAR, 125n)).toBe(1750n)
+  })
+
+  test("halves the log of the price ratio at the midpoint of an exponential curve", () => {
+    // 2000 * (1000 / 2000) ^ 0.5 = 1414.21...
+    expect(auctionPrice(EXPONENTIAL, 150n)).toBe(1414n)
+    expect(auctionPrice(EXPONENTIAL, 150n)).toBeLessThan(auctionPrice(LINEAR, 150n))
+  })
+
+  test("runs straight between piecewise points", () => {
+    expect(auctionPrice(PIECEWISE, 110n)).toBe(1600n)
+    expect(auctionPrice(PIECEWISE, 120n)).toBe(1200n)
+    expect(auctionPrice(PIECEWISE, 140n)).toBe(1150n)
+    expect(auctionPrice(PIECEWISE, 160n)).toBe(1100n)
+    expect(auctionPrice(PIECEWISE, 180n)).toBe(1050n)
+  })
+})
+
+describe("validateAuction", () => {
+  test("accepts the example curves", () => {
+    for (const auction of [LINEAR, PIECEWISE, EXPONENTIAL]) {
+      expect(() => validateAuction(auction)).not.toThrow()
+    }
+  })
+
+  test.each([
+    ["an unknown curve", { ...LINEAR, auctionCurve: "cubic" }, "Unknown auction curve"],
+    ["an auction ending at its start", { ...LINEAR, endTime: 100 }, "must end after it starts"],
+    ["an end price above the start price", { ...LINEAR, endPrice: "3000" }, "above its start price"],
+    [
+      "a piecewise auction without points",
+      { ...PIECEWISE, auctionPoints: [] },
+      "needs at least one point",
+    ],
+    [
+      "points on a linear auction",
+      { ...LINEAR, auctionPoints: PIECEWISE.auctionPoints },
+      "takes no points",
+    ],
+    ["an exponential auction ending at zero", { ...EXPONENTIAL, endPrice: "0" }, "non-zero end price"],
+    [
+      "point delays that do not increase",
+      {
+        ...PIECEWISE,
+        auctionPoints: [
+          { delay: 60, price: "1200" },
+          { delay: 20, price: "1100" },
+        ],
+      },
+      "delays must increase",
+    ],
+    [
+      "a point at the end of the auction",
+      { ...PIECEWISE, auctionPoints: [{ delay: 100, price: "1200" }] },
+      "delays must increase",
+    ],
+    [
+      "a point price that rises",
+      {
+        ...PIECEWISE,
+        auctionPoints: [
+          { delay: 20, price: "1100" },
+          { delay: 60, price: "1200" },
+        ],
+      },
+      "must lie between",
+    ],
+    [
+      "a point price below the end price",
+      { ...PIECEWISE, auctionPoints: [{ delay: 20, price: "900" }] },
+      "must lie between",
+    ],
+  ] as [string, AuctionParams, string][])("rejects %s", (_name, auction, message) => {
+    expect(() => validateAuction(auction)).toThrow(message)
+    expect(() => auctionPrice(auction, 150n)).toThrow(message)
+  })
+})
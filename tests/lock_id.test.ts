@@ -0,0 +1,80 @@
+import { describe, expect, test } from "bun:test"
+import * as crypto from "crypto"
+import { generateLockId, lockEndtime, lookupLockId } from "../scripts/lib/lock_id"
+
+// Inputs of test_generate_lock_id_golden_vectors in unreal_tests.move; keep both in sync
+const SECRET_HASH = crypto
+  .createHash("sha3-256")
+  .update("this_is_a_test_secret_for_htlc")
+  .digest()
+const USER1_ADDR = "0xAA"
+const USER2_ADDR = "0xBB"
+const TIMESTAMP = 1754220019
+
+describe("generateLockId", () => {
+  test("matches the Move golden vector for a zero timestamp", () => {
+    expect(
+      generateLockId({
+        secretHash: SECRET_HASH,
+        recipient: USER2_ADDR,
+        sender: USER1_ADDR,
+        amount: 1000,
+        endtime: 24 * 3600,
+        timestamp: 0,
+      })
+    ).toBe("0xd3884d59a036dd06f0d26ad8d51fde66e6628492dd97c592a92beec832df0f51")
+  })
+
+  test("matches the Move golden vector for an explicit timestamp", () => {
+    expect(
+      generateLockId({
+        secretHash: SECRET_HASH,
+        recipient: USER2_ADDR,
+        sender: USER1_ADDR,
+        amount: 1000n,
+        endtime: lockEndtime(TIMESTAMP, 24),
+        timestamp: TIMESTAMP,
+      })
+    ).toBe("0x0b835a9d52901bc982b03136f52242c1658273ae5365935b330387dd5e2f68fc")
+  })
+
+  test("accepts the secret hash as hex", () => {
+    expect(
+      generateLockId({
+        secretHash: "0x" + SECRET_HASH.toString("hex"),
+        recipient: USER2_ADDR,
+        sender: USER1_ADDR,
+        amount: "1000",
+        endtime: "86400",
+        timestamp: "0",
+      })
+    ).toBe("0xd3884d59a036dd06f0d26ad8d51fde66e6628492dd97c592a92beec832df0f51")
+  })
+})
+
+describe("lookupLockId", () => {
+  test("derives the ID with a zero timestamp", () => {
+    expect(
+      lookupLockId({
+        secretHash: SECRET_HASH,
+        recipient: USER2_ADDR,
+        sender: USER1_ADDR,
+        amount: 1000,
+        endtime: 24 * 3600,
+      })
+    ).toBe("0xd3884d59a036dd06f0d26ad8d51fde66e6628492dd97c592a92beec832df0f51")
+  })
+
+  test("differs from the event lock ID of a lock initiated with a timestamp", () => {
+    const params = {
+      secretHash: SECRET_HASH,
+      recipient: USER2_ADDR,
+      sender: USER1_ADDR,
+      amount: 1000,
+      endtime: lockEndtime(TIMESTAMP, 24),
+    }
+    expect(lookupLockId(params)).not.toBe(
+      generateLockId({ ...params, timestamp: TIMESTAMP })
+    )
+  })
+})
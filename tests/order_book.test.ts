@@ -0,0 +1,171 @@
+import "./test_env"
+import { afterAll, beforeAll, describe, expect, test } from "bun:test"
+import { AddressInfo } from "net"
+import { Hex, zeroHash } from "viem"
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts"
+import { config } from "../config"
+import { generateSecret } from "../scripts/lib/hashlock"
+import { submitOrder } from "../scripts/lib/order_book_client"
+import {
+  EIP712_DOMAIN,
+  EIP712_TYPES,
+  OffchainOrder,
+  orderKey,
+  orderMessage,
+} from "../scripts/lib/orders"
+import { createOrderBook, createOrderBookServer } from "../scripts/order_book"
+
+const maker = privateKeyToAccount(generatePrivateKey())
+const APTOS_RECEIVER = "0x" + "0".repeat(63) + "1"
+let nonce = 0
+
+/**
+ * Sign an Etherlink to Aptos order, or an Aptos to Etherlink one with a hashlock
+ */
+async function signedOrder(hashlock?: Hex, deadlineIn = 3600) {
+  const now = Math.floor(Date.now() / 1000)
+  const order = {
+    maker: maker.address,
+    sourceChainId: hashlock ? 2 : config.etherlinkChainId,
+    targetChainId: hashlock ? config.etherlinkChainId : 2,
+    sourceToken: config.unrealTokenAddress,
+    targetToken: config.unrealTokenAddress,
+    amount: "1000",
+    minReturn: "990",
+    receiver: hashlock ? maker.address : APTOS_RECEIVER,
+    deadline: now + deadlineIn,
+    nonce: String(++nonce),
+    startPrice: "2000",
+    endPrice: "1000",
+    startTime: now,
+    endTime: now + 600,
+    auctionCurve: "linear",
+    auctionPoints: [],
+    hashlock: hashlock ?? zeroHash,
+  }
+  const signature = await maker.signTypedData({
+    domain: EIP712_DOMAIN,
+    types: EIP712_TYPES,
+    primaryType: "Order",
+    message: orderMessage(order),
+  })
+  return { ...order, signature }
+}
+
+/**
+ * POST a raw body to the order book
+ */
+function post(path: string, body: string): Promise<Response> {
+  return fetch(new URL(path, baseUrl), {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body,
+  })
+}
+
+const server = createOrderBookServer(createOrderBook())
+let baseUrl = ""
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+afterAll(() => {
+  server.closeAllConnections()
+  server.close()
+})
+
+describe("POST /orders", () => {
+  test("stores a signed order and lists it", async () => {
+    const order = await signedOrder()
+    expect(await submitOrder(baseUrl, order)).toEqual(order)
+
+    const response = await fetch(`${baseUrl}/orders?targetChainId=2`)
+    expect(response.status).toBe(200)
+    const { orders } = (await response.json()) as { orders: OffchainOrder[] }
+    expect(orders.map(orderKey)).toContain(orderKey(order))
+  })
+
+  test("stores an Aptos to Etherlink order carrying the maker's hashlock", async () => {
+    const order = await signedOrder(generateSecret().hashlocks.Etherlink)
+    expect(await submitOrder(baseUrl, order)).toEqual(order)
+  })
+
+  test("rejects a hashlock that is not 32 bytes", async () => {
+    const order = { ...(await signedOrder()), hashlock: "0x1234" }
+    expect((await post("/orders", JSON.stringify(order))).status).toBe(400)
+  })
+
+  test("rejects a duplicate with 409", async () => {
+    const order = await signedOrder()
+    await submitOrder(baseUrl, order)
+    expect((await post("/orders", JSON.stringify(order))).status).toBe(409)
+  })
+
+  test("rejects an order signed by someone else than the maker", async () => {
+    const order = await signedOrder()
+    const forged = { ...order, amount: "2000" }
+    const response = await post("/orders", JSON.stringify(forged))
+    expect(response.status).toBe(400)
+    expect(await response.json()).toEqual({ error: "Invalid order signature" })
+  })
+
+  test("rejects an order whose deadline has passed", async () => {
+    const order = await signedOrder(undefined, -60)
+    const response = await post("/orders", JSON.stringify(order))
+    expect(response.status).toBe(400)
+    expect(((await response.json()) as { error: string }).error).toContain("has passed")
+  })
+
+  test("rejects a body that is not JSON with 400", async () => {
+    expect((await post("/orders", "{")).status).toBe(400)
+  })
+
+  test("answers 413 for a body above the size limit, then closes", async () => {
+    const body = JSON.stringify({ padding: "x".repeat(128 * 1024) })
+    const response = await post("/orders", body)
+    expect(response.status).toBe(413)
+    expect(response.headers.get("connection")).toBe("close")
+    expect(((await response.json()) as { error: string }).error).toContain("exceeds")
+  })
+})
+
+describe("GET /orders", () => {
+  test("rejects a chain filter that is not an integer", async () => {
+    expect((await fetch(`${baseUrl}/orders?sourceChainId=x`)).status).toBe(400)
+  })
+
+  test("answers 404 for an unknown route", async () => {
+    expect((await fetch(`${baseUrl}/nowhere`)).status).toBe(404)
+  })
+})
+
+describe("GET /orders/stream", () => {
+  test("sends open orders, then new ones, as server-sent events", async () => {
+    const open = await signedOrder()
+    await submitOrder(baseUrl, open)
+
+    const controller = new AbortController()
+    const response = await fetch(`${baseUrl}/orders/stream?targetChainId=2`, {
+      signal: controller.signal,
+    })
+    expect(response.headers.get("content-type")).toBe("text/event-stream")
+    const reader = response.body!.getReader()
+    const decoder = new TextDecoder()
+    let received = ""
+    const readUntil = async (text: string) => {
+      while (!received.includes(text)) {
+        const { value } = await reader.read()
+        received += decoder.decode(value, { stream: true })
+      }
+    }
+
+    await readUntil(open.signature)
+    const added = await signedOrder()
+    await submitOrder(baseUrl, added)
+    await readUntil(added.signature)
+    expect(received).toContain(`event: order\ndata: ${JSON.stringify(added)}\n\n`)
+    controller.abort()
+  })
+})
@@ -0,0 +1,104 @@
+import "./test_env"
+import { describe, expect, test } from "bun:test"
+import {
+  decideFill,
+  FillCosts,
+  fillAmount,
+  FillPlan,
+  FillTerms,
+  SolverPricing,
+} from "../scripts/lib/profitability"
+
+// Amounts and prices in whole units, so a unit of UNREAL is worth one wei
+const ORDER: FillTerms = {
+  amount: "1000",
+  minReturn: "900",
+  deadline: 300,
+  startPrice: "2000",
+  endPrice: "1000",
+  startTime: 100,
+  endTime: 200,
+  auctionCurve: "linear",
+  auctionPoints: [],
+}
+
+const PLAN: FillPlan = { lockAmount: 1000n, lockSeconds: 3600, claimsOnAptos: false }
+
+const COSTS: FillCosts = { etherlinkGas: 10n, aptosGas: 10n, inventory: 10n }
+
+/**
+ * Pricing valuing one UNREAL base unit at one wei
+ */
+function pricing(minProfit: bigint): SolverPricing {
+  return { unrealPrice: 1n, aptPrice: 1n, minProfit, inventoryRateBps: 0n }
+}
+
+/**
+ * Decide on a fill with 0-decimal UNREAL
+ */
+function decide(order: FillTerms, timestamp: bigint, minProfit: bigint) {
+  return decideFill(order, timestamp, PLAN, COSTS, pricing(minProfit), 0)
+}
+
+describe("fillAmount", () => {
+  test("delivers the whole amount at the start price and minReturn at the end price", () => {
+    expect(fillAmount(ORDER, 50n)).toBe(1000n)
+    expect(fillAmount(ORDER, 100n)).toBe(1000n)
+    expect(fillAmount(ORDER, 200n)).toBe(900n)
+    expect(fillAmount(ORDER, 500n)).toBe(900n)
+  })
+
+  test("follows the auction curve in between", () => {
+    expect(fillAmount(ORDER, 150n)).toBe(950n)
+    const piecewise = {
+      ...ORDER,
+      auctionCurve: "piecewise",
+      auctionPoints: [{ delay: 20, price: "1200" }],
+    }
+    expect(fillAmount(piecewise, 120n)).toBe(920n)
+  })
+
+  test("delivers minReturn when the auction price does not move", () => {
+    expect(fillAmount({ ...ORDER, startPrice: "1000" }, 150n)).toBe(900n)
+  })
+})
+
+describe("decideFill", () => {
+  test("fills when the spread covers the costs and minimum profit now", () => {
+    const decision = decide(ORDER, 160n, 20n)
+    expect(decision.action).toBe("fill")
+    expect(decision.fillAmount).toBe(940n)
+    expect(decision.profit).toBe(30n)
+  })
+
+  test("waits for the earliest profitable block timestamp", () => {
+    const decision = decide(ORDER, 120n, 20n)
+    expect(decision.action).toBe("wait")
+    // The spread reaches 50 at price 1500, half way through the auction
+    expect(decision.fillAt).toBe(150n)
+    expect(decide(ORDER, 149n, 20n).action).toBe("wait")
+    expect(decide(ORDER, 150n, 20n).action).toBe("fill")
+  })
+
+  test("finds the earliest profitable timestamp on an exponential curve", () => {
+    const order = { ...ORDER, auctionCurve: "exponential" }
+    const { action, fillAt } = decide(order, 100n, 40n)
+    expect(action).toBe("wait")
+    expect(decide(order, fillAt!, 40n).action).toBe("fill")
+    expect(decide(order, fillAt! - 1n, 40n).action).toBe("wait")
+  })
+
+  test("skips an order that never pays before the auction ends", () => {
+    const decision = decide(ORDER, 120n, 200n)
+    expect(decision.action).toBe("skip")
+    expect(decision.reason).toContain("never profitable")
+  })
+
+  test("skips an order whose deadline passes before it pays", () => {
+    expect(decide({ ...ORDER, deadline: 140 }, 120n, 20n).action).toBe("skip")
+  })
+
+  test("skips an order returning more than it pays in", () => {
+    expect(decide({ ...ORDER, minReturn: "1100" }, 150n, 0n).action).toBe("skip")
+  })
+})
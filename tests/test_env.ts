@@ -0,0 +1,5 @@
+// Configuration the modules under test need on import; import this first
+process.env.APTOS_PRIVATE_KEY ??= "0x" + "11".repeat(32)
+process.env.APTOS_MODULE_ADDRESS ??= "0xcafe"
+process.env.ETHERLINK_HTLC_ADDRESS ??= "0x" + "ab".repeat(20)
+process.env.UNREAL_TOKEN_ADDRESS ??= "0x" + "cd".repeat(20)
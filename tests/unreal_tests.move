@@ -87,8 +87,8 @@ module unreal::unreal_tests {
         let admin_coins = coin::withdraw<unreal_token::UnrealToken>(&admin, 10000);
         coin::deposit(user1_addr, admin_coins);
         
-        // Generate hash of secret for HTLC
-        let secret_hash = std::hash::sha3_256(SECRET);
+        // Generate hash of secret for HTLC; withdraw checks keccak256 like UnrealHTLC.sol
+        let secret_hash = aptos_std::aptos_hash::keccak256(SECRET);
         
         // User1 initiates a swap to user2
         unreal_htlc::initiate_swap(
@@ -127,6 +127,34 @@ module unreal::unreal_tests {
         );
     }
     
+    #[test]
+    fun test_generate_lock_id_golden_vectors() {
+        // Golden vectors shared with scripts/lib/lock_id.ts; keep both in sync
+        let secret_hash = std::hash::sha3_256(SECRET);
+
+        // Same lock as test_cross_chain_swap_flow, where now_seconds() is 0, with a sha3 secret hash
+        let lock_id = unreal_htlc::generate_lock_id(
+            secret_hash,
+            USER2_ADDR,
+            USER1_ADDR,
+            1000,
+            24 * 3600,
+            0
+        );
+        assert!(lock_id == x"d3884d59a036dd06f0d26ad8d51fde66e6628492dd97c592a92beec832df0f51", 0);
+
+        // Explicit initiation timestamp, as passed by the TypeScript tooling
+        let lock_id = unreal_htlc::generate_lock_id(
+            secret_hash,
+            USER2_ADDR,
+            USER1_ADDR,
+            1000,
+            1754220019 + (24 * 3600),
+            1754220019
+        );
+        assert!(lock_id == x"0b835a9d52901bc982b03136f52242c1658273ae5365935b330387dd5e2f68fc", 1);
+    }
+    
     #[test]
     #[expected_failure(abort_code = 8)]
     fun test_refund_before_timelock() {